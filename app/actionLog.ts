@@ -0,0 +1,84 @@
+/**
+ * Action Log Events
+ *
+ * Shared by page.tsx, multiplayerHost.ts, handHistory.ts, handStore.ts and stats.ts.
+ *
+ * Every ActionLogItem carries a typed event (kind, amount, pot after, cards,
+ * all-in). Code that needs to know what happened reads the event; the log
+ * text is only generated from it for display, by describeAction.
+ */
+
+import type { Card } from "./multiplayerHost";
+import { formatBB } from "./chips";
+
+export type ActionKind =
+  | "ante"
+  | "smallBlind"
+  | "bigBlind"
+  | "check"
+  | "fold"
+  | "call"
+  | "bet"
+  | "raise"
+  | "show"
+  | "muck"
+  | "win"
+  | "split"
+  | "timeout";
+
+// All amounts in chips
+export type ActionEvent = {
+  kind: ActionKind;
+  amount?: number;     // posted, called, bet/raised to, or won
+  potAfter: number;    // pot + both bets once the action is done
+  cards?: Card[];      // shown hole cards
+  allIn?: boolean;
+  showdown?: boolean;  // win/split decided at showdown
+};
+
+export function isBettingAction(kind: ActionKind) {
+  return kind === "check" || kind === "fold" || kind === "call" || kind === "bet" || kind === "raise";
+}
+
+export function isAggressiveAction(kind: ActionKind) {
+  return kind === "bet" || kind === "raise";
+}
+
+function bb(chips = 0) {
+  return `${formatBB(chips)}bb`;
+}
+
+/**
+ * Display text for the action log ("Calls 2bb", "Shows A♠ K♥", ...)
+ */
+export function describeAction(event: ActionEvent): string {
+  const allIn = event.allIn ? " all-in" : "";
+  switch (event.kind) {
+    case "ante":
+      return `Posts ante ${bb(event.amount)}`;
+    case "smallBlind":
+      return `Posts SB ${bb(event.amount)}${allIn}`;
+    case "bigBlind":
+      return `Posts BB ${bb(event.amount)}${allIn}`;
+    case "check":
+      return "Checks";
+    case "fold":
+      return "Folds";
+    case "call":
+      return `Calls ${bb(event.amount)}${allIn}`;
+    case "bet":
+      return `Bets ${bb(event.amount)}${allIn}`;
+    case "raise":
+      return `Raises to ${bb(event.amount)}${allIn}`;
+    case "show":
+      return `Shows ${(event.cards ?? []).map((c) => `${c.rank}${c.suit}`).join(" ")}`;
+    case "muck":
+      return "Mucked";
+    case "win":
+      return `Wins ${bb(event.amount)}${event.showdown ? " (Showdown)" : ""}`;
+    case "split":
+      return `Split pot ${bb(event.amount)}${event.showdown ? " (Showdown)" : ""}`;
+    case "timeout":
+      return "Time ran out";
+  }
+}
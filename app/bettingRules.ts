@@ -0,0 +1,118 @@
+/**
+ * Betting Rules
+ *
+ * One source of truth for what the seat to act may do.
+ * - computeLegalActions: what the action bar offers (sent in HostState)
+ * - validateAction: the host runs each action (local or remote) through this
+ *   before applying it; illegal remote actions get ACTION_REJECTED
+ */
+
+import type { GameAction, HostState, Seat } from "./multiplayerHost";
+import { formatBB } from "./chips";
+
+export type ActionValidation = { ok: true } | { ok: false; reason: string };
+
+// What the seat to act may do right now. Computed by the host for `toAct`
+// and sent in HostState; the action bar and hotkeys render only from this.
+// Amounts are in chips.
+export type LegalActions = {
+  seat: Seat;
+  canFold: boolean;
+  canCheck: boolean;
+  canCall: boolean;
+  callAmount: number;   // capped at the caller's stack
+  canBetRaise: boolean;
+  isRaise: boolean;     // facing a bet: "Raise" rather than "Bet"
+  minRaiseTo: number;   // full min-raise, or all-in if the stack is shorter
+  maxRaiseTo: number;   // the most the opponent can match
+  allInTo: number;      // current bet + whole stack
+};
+
+// The parts of HostState the betting rules depend on
+export type BettingState = Pick<HostState, "game" | "toAct" | "lastRaiseSize" | "handResult" | "gameOver" | "runningOut">;
+
+function bb(chips: number) {
+  return `${formatBB(chips)}bb`;
+}
+
+function reject(reason: string): ActionValidation {
+  return { ok: false, reason };
+}
+
+export function computeLegalActions(state: BettingState): LegalActions | null {
+  if (state.handResult.status !== "playing" || state.gameOver || state.runningOut) return null;
+
+  const seat = state.toAct;
+  const other: Seat = seat === "top" ? "bottom" : "top";
+  const myBet = state.game.bets[seat];
+  const otherBet = state.game.bets[other];
+  const myStack = state.game.stacks[seat];
+  const otherStack = state.game.stacks[other];
+
+  const toCall = Math.max(0, otherBet - myBet);
+  const callAmount = Math.min(toCall, myStack);
+  const allInTo = myBet + myStack;
+
+  // Min raise-to = largest bet + size of the last raise (BB when nobody has bet)
+  const fullMinRaiseTo = Math.max(myBet, otherBet) + state.lastRaiseSize;
+  const minRaiseTo = Math.min(fullMinRaiseTo, allInTo);
+  const maxRaiseTo = Math.max(minRaiseTo, Math.min(allInTo, otherBet + otherStack));
+
+  return {
+    seat,
+    canFold: true,
+    canCheck: toCall <= 0,
+    canCall: toCall > 0,
+    callAmount,
+    // Must be able to put in more than a call, against someone who can still act
+    canBetRaise: myStack > toCall && otherStack > 0,
+    isRaise: toCall > 0,
+    minRaiseTo,
+    maxRaiseTo,
+    allInTo,
+  };
+}
+
+export function validateAction(state: BettingState, seat: Seat, action: GameAction): ActionValidation {
+  if (state.handResult.status !== "playing") return reject("The hand is over");
+  if (state.gameOver) return reject("The game is over");
+  if (state.runningOut) return reject("The board is being run out");
+  if (state.toAct !== seat) return reject("It's not your turn");
+
+  const legal = computeLegalActions(state);
+  if (!legal) return reject("The hand is over");
+
+  switch (action?.type) {
+    case "FOLD":
+      return { ok: true };
+
+    case "CHECK":
+      if (!legal.canCheck) return reject(`You can't check facing a bet — ${bb(legal.callAmount)} to call`);
+      return { ok: true };
+
+    case "CALL":
+      if (!legal.canCall) return reject("There is no bet to call — check instead");
+      return { ok: true };
+
+    case "BET_RAISE_TO": {
+      const to = action.to;
+      if (typeof to !== "number" || !Number.isFinite(to)) return reject("Bet amount is not a number");
+      if (!Number.isInteger(to)) return reject("Bet amount must be a whole number of chips");
+      if (state.game.stacks[seat] <= 0) return reject("You are already all-in");
+      if (!legal.canBetRaise) {
+        return reject(legal.canCall ? "You can only call or fold" : "You can't bet right now");
+      }
+
+      if (to > legal.allInTo) return reject(`You only have ${bb(legal.allInTo)} in total`);
+
+      // Going all-in for less than a full raise is always allowed
+      if (to < legal.minRaiseTo && to !== legal.allInTo) {
+        return reject(legal.isRaise ? `Minimum raise is to ${bb(legal.minRaiseTo)}` : `Minimum bet is ${bb(legal.minRaiseTo)}`);
+      }
+      return { ok: true };
+    }
+
+    default:
+      return reject("Unknown action");
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Blind Levels
+ *
+ * Shared by page.tsx and multiplayerHost.ts.
+ *
+ * The level is fixed when a hand starts: from the hand number for
+ * hand-based levels, or from the time since the game started for timed ones.
+ * The structure itself lives in gameConfig.ts.
+ */
+
+import { BLIND_LEVELS } from "./gameConfig";
+import type { BlindLevel, BlindLevelDuration } from "./gameConfig";
+import { formatBB } from "./chips";
+
+const MINUTE_MS = 60_000;
+
+/**
+ * Level index for a hand starting now
+ */
+export function blindLevelIndexAt(duration: BlindLevelDuration, handId: number, elapsedMs: number): number {
+  const elapsed = duration.unit === "hands" ? handId : Math.floor(elapsedMs / MINUTE_MS);
+  return Math.floor(elapsed / duration.length);
+}
+
+/**
+ * Blinds for a level index; past the end of the structure the last level repeats
+ */
+export function getBlindLevel(index: number): BlindLevel {
+  return BLIND_LEVELS[Math.min(Math.max(0, index), BLIND_LEVELS.length - 1)];
+}
+
+/**
+ * "0.75/1.5bb" or "1/2bb, ante 0.25bb"
+ */
+export function formatBlindLevel(level: BlindLevel): string {
+  const blinds = `${formatBB(level.sb)}/${formatBB(level.bb)}bb`;
+  return level.ante > 0 ? `${blinds}, ante ${formatBB(level.ante)}bb` : blinds;
+}
+
+/**
+ * Warning shown from `warningStartsAt` (hand or minute within the level)
+ * until the next level starts. Null when not due yet or already at the top level.
+ */
+export function getBlindNotice(
+  duration: BlindLevelDuration,
+  warningStartsAt: number,
+  levelIndex: number,
+  handId: number,
+  elapsedMs: number
+): string | null {
+  if (levelIndex >= BLIND_LEVELS.length - 1) return null;
+
+  const next = formatBlindLevel(getBlindLevel(levelIndex + 1));
+
+  if (duration.unit === "hands") {
+    const withinLevel = (handId % duration.length) + 1;
+    if (withinLevel < warningStartsAt) return null;
+
+    const remaining = duration.length + 1 - withinLevel;
+    return remaining === 1
+      ? `Blinds go up to ${next} next hand`
+      : `Blinds go up to ${next} in ${remaining} hands`;
+  }
+
+  // Timed levels: the next level starts with the first hand dealt after time is up
+  const levelEndsAt = (levelIndex + 1) * duration.length * MINUTE_MS;
+  const minutesLeft = Math.ceil((levelEndsAt - elapsedMs) / MINUTE_MS);
+  const withinLevel = duration.length + 1 - minutesLeft;
+  if (withinLevel < warningStartsAt) return null;
+
+  return minutesLeft <= 0
+    ? `Blinds go up to ${next} next hand`
+    : `Blinds go up to ${next} in ${minutesLeft} min`;
+}
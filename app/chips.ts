@@ -0,0 +1,51 @@
+/**
+ * Chip Units
+ *
+ * Shared by page.tsx, multiplayerHost.ts and bettingRules.ts.
+ *
+ * Stacks, bets and the pot are whole numbers of chips (1 BB = 100 chips),
+ * so adding and subtracting them is exact and chips are always conserved.
+ * Amounts are only converted to big blinds for display, through formatBB.
+ */
+
+import type { Seat } from "./multiplayerHost";
+
+export const CHIPS_PER_BB = 100;
+
+/**
+ * Big blinds (e.g. typed into the bet box) -> whole chips
+ */
+export function bbToChips(bb: number): number {
+  return Math.round(bb * CHIPS_PER_BB);
+}
+
+/**
+ * Chips -> big blinds, for inputs and sliders that work in BB
+ */
+export function chipsToBB(chips: number): number {
+  return chips / CHIPS_PER_BB;
+}
+
+/**
+ * Chips -> display string in big blinds ("2", "2.5", "18.75")
+ */
+export function formatBB(chips: number | ""): string {
+  if (chips === "") return "";
+  const bb = chipsToBB(chips);
+  if (Number.isInteger(bb)) return bb.toString();
+  return bb.toFixed(2).replace(/0+$/, "").replace(/\.$/, "");
+}
+
+/**
+ * Split a pot between both seats. An odd chip can't be halved: it goes to
+ * the first seat left of the button, which heads-up is the big blind
+ * (the non-dealer).
+ */
+export function splitPot(pot: number, dealerSeat: Seat): Record<Seat, number> {
+  const nonDealerSeat: Seat = dealerSeat === "top" ? "bottom" : "top";
+  const half = Math.floor(pot / 2);
+  return {
+    [dealerSeat]: half,
+    [nonDealerSeat]: pot - half,
+  } as Record<Seat, number>;
+}
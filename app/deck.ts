@@ -0,0 +1,172 @@
+/**
+ * Deck Shuffling and Deal Commitments
+ *
+ * Shared by page.tsx and multiplayerHost.ts.
+ *
+ * Shuffling is an unbiased Fisher–Yates shuffle driven by the browser's
+ * CSPRNG (crypto.getRandomValues).
+ *
+ * Deals are made verifiable with a commit–reveal protocol:
+ * - At hand start the host salts every dealt card, hashes each one
+ *   (leaf = sha256(salt:card)) and publishes the leaves plus their root hash
+ * - At hand end the host reveals the salts of the cards the viewer may see
+ * - The viewer re-hashes every card it saw and checks it against the
+ *   commitment it received when the hand started
+ *
+ * Per-card salts mean mucked hole cards stay secret: their leaves are public
+ * but without the salt they can't be brute-forced from 52 possibilities.
+ *
+ * What this does NOT prove is a fair shuffle. The host shuffles alone, so it
+ * could pick whatever deck it likes before committing; the check only shows
+ * the cards weren't changed after the hand started. Mixing in the joiner's
+ * entropy would mean revealing the whole shuffle at hand end, mucked cards
+ * included, so it isn't done.
+ */
+
+import type { Card } from "./multiplayerHost";
+
+export const RANKS = ["A", "K", "Q", "J", "T", "9", "8", "7", "6", "5", "4", "3", "2"];
+export const SUITS = ["♠", "♥", "♦", "♣"];
+
+export type DealCommitment = {
+  root: string;     // sha256 of all leaves, published at hand start
+  leaves: string[]; // sha256(salt:card) for each dealt position
+};
+
+export function createDeck(): Card[] {
+  const deck: Card[] = [];
+  for (const suit of SUITS) for (const rank of RANKS) deck.push({ rank, suit });
+  return deck;
+}
+
+/**
+ * Uniform random integer in [0, n) from the CSPRNG (rejection sampling, no modulo bias)
+ */
+function secureRandomInt(n: number): number {
+  const limit = Math.floor(0x100000000 / n) * n;
+  const buf = new Uint32Array(1);
+  do {
+    crypto.getRandomValues(buf);
+  } while (buf[0] >= limit);
+  return buf[0] % n;
+}
+
+/**
+ * Fisher–Yates shuffle in place
+ */
+export function shuffleDeck<T>(deck: T[]): T[] {
+  for (let i = deck.length - 1; i > 0; i--) {
+    const j = secureRandomInt(i + 1);
+    [deck[i], deck[j]] = [deck[j], deck[i]];
+  }
+  return deck;
+}
+
+function randomHex(bytes: number): string {
+  const buf = new Uint8Array(bytes);
+  crypto.getRandomValues(buf);
+  return Array.from(buf, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/* ---------- SHA-256 (synchronous, so the host can commit inside startHand) ---------- */
+
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+export function sha256Hex(text: string): string {
+  const data = new TextEncoder().encode(text);
+  const bitLen = data.length * 8;
+
+  // Pad: 0x80, zeros, then 64-bit big-endian length
+  const padded = new Uint8Array(Math.ceil((data.length + 9) / 64) * 64);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(bitLen / 0x100000000));
+  view.setUint32(padded.length - 4, bitLen >>> 0);
+
+  const h = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ]);
+  const w = new Uint32Array(64);
+  const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let i = 0; i < 64; i++) {
+      const S1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const t1 = (hh + S1 + ch + SHA256_K[i] + w[i]) >>> 0;
+      const S0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (S0 + maj) >>> 0;
+      hh = g;
+      g = f;
+      f = e;
+      e = (d + t1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) >>> 0;
+    }
+
+    h[0] += a; h[1] += b; h[2] += c; h[3] += d;
+    h[4] += e; h[5] += f; h[6] += g; h[7] += hh;
+  }
+
+  return Array.from(h, (x) => x.toString(16).padStart(8, "0")).join("");
+}
+
+/* ---------- commit–reveal ---------- */
+
+function hashCard(salt: string, card: Card) {
+  return sha256Hex(`${salt}:${card.rank}${card.suit}`);
+}
+
+/**
+ * Commit to a deal. The commitment is published, the salts stay with the host
+ * until the hand ends. The deal itself is the host's alone (see above).
+ */
+export function commitDeal(cards: Card[]): { commitment: DealCommitment; salts: string[] } {
+  const salts = cards.map(() => randomHex(16));
+  const leaves = cards.map((card, i) => hashCard(salts[i], card));
+  return {
+    commitment: { root: sha256Hex(leaves.join("")), leaves },
+    salts,
+  };
+}
+
+/**
+ * Check every card we saw against the commitment.
+ * `cards` and `salts` are position-aligned with the commitment leaves; hidden
+ * positions are null. A card we saw without a revealed salt fails the check.
+ */
+export function verifyDeal(
+  commitment: DealCommitment,
+  cards: (Card | null)[],
+  salts: (string | null)[]
+): boolean {
+  if (sha256Hex(commitment.leaves.join("")) !== commitment.root) return false;
+  if (cards.length !== commitment.leaves.length) return false;
+
+  return cards.every((card, i) => {
+    if (!card) return true;
+    const salt = salts[i];
+    return !!salt && hashCard(salt, card) === commitment.leaves[i];
+  });
+}
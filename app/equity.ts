@@ -0,0 +1,187 @@
+/**
+ * All-in Equity
+ *
+ * Used by equity.worker.ts; page.tsx posts EquityRequests to the worker and
+ * shows the results.
+ *
+ * Win/tie chances for two hands given the board so far, using evaluateCodes:
+ * - Exhaustive enumeration of every remaining board when both hands are
+ *   known and there are few enough boards (a flop or turn all-in)
+ * - Monte Carlo sampling otherwise (preflop, or an unknown hand)
+ *
+ * Runs in a Web Worker so a preflop all-in doesn't stall the table.
+ */
+
+import type { ActionLogItem, Card, StreetName } from "./multiplayerHost";
+import { isBettingAction } from "./actionLog";
+import { cardCode, evaluateCodes } from "./handEvaluator";
+import { createDeck } from "./deck";
+
+// Fractions in [0, 1]
+export type SeatEquity = { win: number; tie: number };
+
+export type EquityResult = {
+  equities: [SeatEquity, SeatEquity];
+  trials: number;
+  exhaustive: boolean;
+};
+
+// Equity with the board as it stood at one street of the runout
+export type StreetEquity = {
+  street: StreetName;
+  board: Card[];
+  equities: [SeatEquity, SeatEquity];
+  exhaustive: boolean;
+};
+
+// null = a hand we can't see; it's dealt at random
+export type EquityHand = [Card, Card] | null;
+
+export const EXHAUSTIVE_LIMIT = 50_000;
+export const MONTE_CARLO_TRIALS = 100_000;
+
+const STREET_BOARD_SIZE: [StreetName, number][] = [["Preflop", 0], ["Flop", 3], ["Turn", 4], ["River", 5]];
+
+function choose(n: number, k: number) {
+  let out = 1;
+  for (let i = 0; i < k; i++) out = (out * (n - i)) / (i + 1);
+  return Math.round(out);
+}
+
+// Every k-item combination of `items`, passed to `visit` (reuses one array)
+function forEachCombination(items: number[], k: number, visit: (combo: number[]) => void) {
+  const combo: number[] = new Array(k);
+  const pick = (start: number, depth: number) => {
+    if (depth === k) {
+      visit(combo);
+      return;
+    }
+    for (let i = start; i <= items.length - (k - depth); i++) {
+      combo[depth] = items[i];
+      pick(i + 1, depth + 1);
+    }
+  };
+  pick(0, 0);
+}
+
+/**
+ * Win/tie chances for both hands. `board` holds 0-5 dealt cards.
+ */
+export function calculateEquity(
+  hands: [EquityHand, EquityHand],
+  board: Card[],
+  trials = MONTE_CARLO_TRIALS
+): EquityResult {
+  const boardCodes = board.map(cardCode);
+  const handCodes = hands.map((hand) => hand?.map(cardCode) ?? null);
+  const known = new Set([...boardCodes, ...(handCodes[0] ?? []), ...(handCodes[1] ?? [])]);
+  const deck = createDeck().map(cardCode).filter((code) => !known.has(code));
+  const unknownCount = (5 - board.length) + (hands[0] ? 0 : 2) + (hands[1] ? 0 : 2);
+
+  // Each seat's seven cards: hole cards in 0-1, board in 2-6
+  const seven = [new Array<number>(7), new Array<number>(7)];
+  for (let seat = 0; seat < 2; seat++) {
+    const hole = handCodes[seat];
+    if (hole) [seven[seat][0], seven[seat][1]] = hole;
+    boardCodes.forEach((code, i) => (seven[seat][2 + i] = code));
+  }
+
+  const wins = [0, 0];
+  let ties = 0;
+  let total = 0;
+
+  // Deal `codes` into the unknown slots: missing hands first, then the board
+  const score = (codes: number[]) => {
+    let next = 0;
+    for (let seat = 0; seat < 2; seat++) {
+      if (handCodes[seat]) continue;
+      seven[seat][0] = codes[next++];
+      seven[seat][1] = codes[next++];
+    }
+    for (let i = 2 + boardCodes.length; i < 7; i++, next++) {
+      seven[0][i] = codes[next];
+      seven[1][i] = codes[next];
+    }
+    const a = evaluateCodes(seven[0]);
+    const b = evaluateCodes(seven[1]);
+    if (a > b) wins[0]++;
+    else if (a < b) wins[1]++;
+    else ties++;
+    total++;
+  };
+
+  // Unknown hands make the order of dealt cards matter, so only enumerate a known-hands board
+  const exhaustive = !!hands[0] && !!hands[1] && choose(deck.length, unknownCount) <= EXHAUSTIVE_LIMIT;
+
+  if (exhaustive) {
+    forEachCombination(deck, unknownCount, score);
+  } else {
+    // Partial Fisher–Yates: the first `unknownCount` codes are a fresh random draw
+    for (let t = 0; t < trials; t++) {
+      for (let i = 0; i < unknownCount; i++) {
+        const j = i + Math.floor(Math.random() * (deck.length - i));
+        [deck[i], deck[j]] = [deck[j], deck[i]];
+      }
+      score(deck);
+    }
+  }
+
+  const tie = total > 0 ? ties / total : 0;
+  return {
+    equities: [
+      { win: total > 0 ? wins[0] / total : 0, tie },
+      { win: total > 0 ? wins[1] / total : 0, tie },
+    ],
+    trials: total,
+    exhaustive,
+  };
+}
+
+/**
+ * Equity at every street of an all-in runout dealt so far, from the street the
+ * money went in (`fromStreet`) to the last card of `dealtBoard`.
+ */
+export function runoutEquities(hands: [[Card, Card], [Card, Card]], dealtBoard: Card[], fromStreet: StreetName): StreetEquity[] {
+  const from = STREET_BOARD_SIZE.findIndex(([street]) => street === fromStreet);
+  return STREET_BOARD_SIZE.slice(Math.max(0, from))
+    .filter(([, size]) => size <= dealtBoard.length)
+    .map(([street, size]) => {
+      const board = dealtBoard.slice(0, size);
+      const { equities, exhaustive } = calculateEquity(hands, board);
+      return { street, board, equities, exhaustive };
+    });
+}
+
+/**
+ * The street a hand's money all went in, when the board is (being) run out
+ * after it: someone was all-in, nobody folded and the last bet was before the river.
+ */
+export function allInRunoutStreet(log: ActionLogItem[]): StreetName | null {
+  if (!log.some((item) => item.event.allIn)) return null;
+  if (log.some((item) => item.event.kind === "fold")) return null;
+  const betting = log.filter((item) => isBettingAction(item.event.kind));
+  const street = betting.length > 0 ? betting[betting.length - 1].street : "Preflop";
+  return street === "River" ? null : street;
+}
+
+// "62%", "0.4%", "<0.1%"
+export function formatEquity(fraction: number): string {
+  const pct = fraction * 100;
+  if (pct > 0 && pct < 0.1) return "<0.1%";
+  if (pct < 10 && pct % 1 !== 0) return `${pct.toFixed(1)}%`;
+  return `${Math.round(pct)}%`;
+}
+
+/* ---------- worker messages ---------- */
+
+export type EquityRequest = {
+  id: number;
+  hands: [[Card, Card], [Card, Card]];
+  board: Card[];
+  fromStreet: StreetName;
+};
+
+export type EquityResponse = {
+  id: number;
+  streets: StreetEquity[];
+};
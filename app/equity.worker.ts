@@ -0,0 +1,17 @@
+/**
+ * Equity Worker
+ *
+ * Runs runoutEquities off the main thread. page.tsx posts an EquityRequest
+ * and gets back an EquityResponse with the same id.
+ */
+
+import { runoutEquities } from "./equity";
+import type { EquityRequest, EquityResponse } from "./equity";
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<EquityRequest>) => {
+  const { id, hands, board, fromStreet } = e.data;
+  const response: EquityResponse = { id, streets: runoutEquities(hands, board, fromStreet) };
+  ctx.postMessage(response);
+};
@@ -4,29 +4,149 @@
  * Change these values to adjust game settings across the entire app.
  * This file is imported by both page.tsx and multiplayerHost.ts to ensure
  * consistent settings in both single-player and multiplayer modes.
+ *
+ * GAME_CONFIG holds the defaults. PIN games override them with the
+ * GameSettings the host picks when creating the game.
  */
 
+// How long each blind level lasts: a number of hands, or of minutes
+export type BlindLevelDuration = { unit: "hands" | "minutes"; length: number };
+
+// One level of the blind structure, in chips (1 BB of the first level = 100).
+// The ante is posted by both players and goes straight into the pot.
+export type BlindLevel = { sb: number; bb: number; ante: number };
+
 export const GAME_CONFIG = {
   /**
-   * Starting stack size in big blinds
+   * Starting stack size in big blinds (of the first level)
    * Example: 25 for fast games, 50 for standard, 100 for deep stack
    */
   STARTING_STACK_BB: 25,
 
   /**
-   * How often blind levels change (stacks reduced by 25%)
-   * Example: 5 for fast, 10 for standard, 20 for slow
+   * How long each blind level lasts
+   * Example: { unit: "hands", length: 5 } for fast, { unit: "minutes", length: 10 } for a timed game
    */
-  BLINDS_INCREASE_EVERY_N_HANDS: 5,
+  BLIND_LEVEL_DURATION: { unit: "hands", length: 5 } as BlindLevelDuration,
 
   /**
-   * When to start showing blind change warnings (within each block)
-   * Example: If BLINDS_INCREASE_EVERY_N_HANDS = 5 and WARNING_STARTS_AT_HAND = 2,
+   * When to start showing blind change warnings (hand or minute within each level)
+   * Example: If levels last 5 hands and WARNING_STARTS_AT = 2,
    * warnings will show at hands 2, 3, 4, 5 (then blinds change at hand 6)
    */
-  WARNING_STARTS_AT_HAND: 3,
+  WARNING_STARTS_AT: 3,
+
+  /**
+   * Seconds each player has to act (0 = no timer)
+   * Example: 15 for fast, 30 for standard, 60 for relaxed
+   */
+  ACTION_TIMER_SECONDS: 30,
+
+  /**
+   * Reserve seconds each player can dip into once the action timer runs out.
+   * Used up for the whole game, not refilled each hand.
+   */
+  TIME_BANK_SECONDS: 60,
+
+  /**
+   * Seconds spectators' view of a PIN game lags behind the table (0 = live)
+   * Example: 30 so a watching friend can't relay the board to a player in time
+   */
+  SPECTATOR_DELAY_SECONDS: 0,
+
+  /**
+   * Seconds between the streets of an all-in runout, with both hands face up
+   * and the equity shown as each street is dealt
+   */
+  RUNOUT_STREET_SECONDS: 1.5,
 } as const;
 
-// Blind values (currently fixed)
-export const BASE_SB = 0.5;
-export const BASE_BB = 1;
+// Per-game settings, chosen by the host when creating a PIN game.
+// Stored on the games row and sent to both players in HostState.
+export type GameSettings = {
+  startingStackBB: number;
+  blindLevelDuration: BlindLevelDuration;
+  warningStartsAt: number;
+  actionTimerSeconds: number; // 0 = no timer
+  spectatorDelaySeconds: number; // 0 = live
+};
+
+export const DEFAULT_GAME_SETTINGS: GameSettings = {
+  startingStackBB: GAME_CONFIG.STARTING_STACK_BB,
+  blindLevelDuration: GAME_CONFIG.BLIND_LEVEL_DURATION,
+  warningStartsAt: GAME_CONFIG.WARNING_STARTS_AT,
+  actionTimerSeconds: GAME_CONFIG.ACTION_TIMER_SECONDS,
+  spectatorDelaySeconds: GAME_CONFIG.SPECTATOR_DELAY_SECONDS,
+};
+
+/**
+ * Choices offered when creating a PIN game
+ */
+export const GAME_SETTING_CHOICES = {
+  startingStackBB: [25, 50, 100],
+  blindSpeeds: [
+    { label: "Turbo — every 3 hands", duration: { unit: "hands", length: 3 } },
+    { label: "Fast — every 5 hands", duration: { unit: "hands", length: 5 } },
+    { label: "Standard — every 10 hands", duration: { unit: "hands", length: 10 } },
+    { label: "Timed — every 5 minutes", duration: { unit: "minutes", length: 5 } },
+    { label: "Timed — every 10 minutes", duration: { unit: "minutes", length: 10 } },
+  ] as { label: string; duration: BlindLevelDuration }[],
+  actionTimerSeconds: [0, 15, 30, 60],
+  spectatorDelaySeconds: [0, 30, 60, 120],
+};
+
+/**
+ * Settings read from the games row or a saved HostState; anything missing
+ * or out of range falls back to the defaults.
+ */
+export function normalizeGameSettings(raw: unknown): GameSettings {
+  const s = (raw && typeof raw === "object" ? raw : {}) as Partial<GameSettings>;
+  const positiveInt = (n: unknown): n is number => typeof n === "number" && Number.isInteger(n) && n > 0;
+  const nonNegativeInt = (n: unknown): n is number => typeof n === "number" && Number.isInteger(n) && n >= 0;
+
+  const duration = s.blindLevelDuration;
+  const blindLevelDuration =
+    duration && (duration.unit === "hands" || duration.unit === "minutes") && positiveInt(duration.length)
+      ? { unit: duration.unit, length: duration.length }
+      : DEFAULT_GAME_SETTINGS.blindLevelDuration;
+
+  return {
+    startingStackBB: positiveInt(s.startingStackBB) ? s.startingStackBB : DEFAULT_GAME_SETTINGS.startingStackBB,
+    blindLevelDuration,
+    warningStartsAt: positiveInt(s.warningStartsAt)
+      ? Math.min(s.warningStartsAt, blindLevelDuration.length)
+      : Math.min(DEFAULT_GAME_SETTINGS.warningStartsAt, blindLevelDuration.length),
+    actionTimerSeconds: nonNegativeInt(s.actionTimerSeconds)
+      ? s.actionTimerSeconds
+      : DEFAULT_GAME_SETTINGS.actionTimerSeconds,
+    spectatorDelaySeconds: nonNegativeInt(s.spectatorDelaySeconds)
+      ? s.spectatorDelaySeconds
+      : DEFAULT_GAME_SETTINGS.spectatorDelaySeconds,
+  };
+}
+
+/**
+ * "25bb stacks · blinds up every 5 hands · 30s to act"
+ */
+export function describeGameSettings(settings: GameSettings): string {
+  const { unit, length } = settings.blindLevelDuration;
+  const timer = settings.actionTimerSeconds > 0 ? `${settings.actionTimerSeconds}s to act` : "no action timer";
+  const delay = settings.spectatorDelaySeconds > 0 ? ` · spectators ${settings.spectatorDelaySeconds}s behind` : "";
+  return `${settings.startingStackBB}bb stacks · blinds up every ${length} ${unit} · ${timer}${delay}`;
+}
+
+/**
+ * Blind structure. Levels go up in order; the last one repeats forever.
+ */
+export const BLIND_LEVELS: readonly BlindLevel[] = [
+  { sb: 50, bb: 100, ante: 0 },
+  { sb: 75, bb: 150, ante: 0 },
+  { sb: 100, bb: 200, ante: 25 },
+  { sb: 150, bb: 300, ante: 25 },
+  { sb: 200, bb: 400, ante: 50 },
+  { sb: 300, bb: 600, ante: 75 },
+  { sb: 400, bb: 800, ante: 100 },
+  { sb: 600, bb: 1200, ante: 150 },
+  { sb: 800, bb: 1600, ante: 200 },
+  { sb: 1000, bb: 2000, ante: 250 },
+];
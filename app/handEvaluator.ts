@@ -0,0 +1,197 @@
+/**
+ * Hand Evaluator
+ *
+ * Shared by page.tsx, multiplayerHost.ts and equity.ts.
+ *
+ * Table-driven evaluation of 0-7 cards. Cards are folded into 13-bit rank
+ * masks (ranks seen at least once / twice / three / four times, plus one mask
+ * per suit) and every question about a mask - its highest five ranks, its best
+ * straight, how many ranks it holds - is a lookup in a table built once when
+ * the module loads. Nothing is allocated or sorted per hand.
+ *
+ * Two forms of the same ranking:
+ * - evaluateCodes: a packed integer, for hot loops (equity, simulations)
+ * - evaluate7: a number[] ([category, ...tiebreaks]) compared with compareScore
+ *
+ * Categories: 8 straight flush, 7 quads, 6 full house, 5 flush, 4 straight,
+ * 3 trips, 2 two pair, 1 pair, 0 high card. Rank values run 2-14 (ace high;
+ * a wheel straight is 5-high).
+ */
+
+import type { Card } from "./multiplayerHost";
+
+const RANK_VALUES: Record<string, number> = {
+  A: 14, K: 13, Q: 12, J: 11, T: 10,
+  "9": 9, "8": 8, "7": 7, "6": 6, "5": 5, "4": 4, "3": 3, "2": 2,
+};
+
+const SUIT_INDEX: Record<string, number> = { "♠": 0, "♥": 1, "♦": 2, "♣": 3, s: 0, h: 1, d: 2, c: 3 };
+
+const MASKS = 1 << 13;
+const WHEEL = (1 << 12) | 0b1111; // A-5-4-3-2
+
+// Highest five ranks of a mask, packed 4 bits each (v1 << 16 ... v5), 0 for missing
+const TOP5 = new Uint32Array(MASKS);
+// Ranks in a mask
+const RANK_COUNT = new Uint8Array(MASKS);
+// High rank of the best straight in a mask, 0 if none
+const STRAIGHT_HIGH = new Uint8Array(MASKS);
+
+for (let mask = 1; mask < MASKS; mask++) {
+  let packed = 0;
+  let taken = 0;
+  for (let bit = 12; bit >= 0; bit--) {
+    if (!(mask & (1 << bit))) continue;
+    if (taken < 5) packed |= (bit + 2) << (16 - 4 * taken);
+    taken++;
+  }
+  TOP5[mask] = packed;
+  RANK_COUNT[mask] = taken;
+
+  for (let high = 12; high >= 4; high--) {
+    const run = 0b11111 << (high - 4);
+    if ((mask & run) === run) {
+      STRAIGHT_HIGH[mask] = high + 2;
+      break;
+    }
+  }
+  if (!STRAIGHT_HIGH[mask] && (mask & WHEEL) === WHEEL) STRAIGHT_HIGH[mask] = 5;
+}
+
+const CATEGORY = 1 << 20;
+
+function highRank(mask: number) {
+  return TOP5[mask] >>> 16;
+}
+
+function rankBit(value: number) {
+  return 1 << (value - 2);
+}
+
+/**
+ * Card -> code 0-51 ((rank value - 2) * 4 + suit), the input to evaluateCodes
+ */
+export function cardCode(card: Card): number {
+  return (RANK_VALUES[card.rank] - 2) * 4 + (SUIT_INDEX[card.suit] ?? 0);
+}
+
+/**
+ * Rank up to seven card codes as one integer: higher is better, equal is a tie.
+ * Orders hands exactly like compareScore on evaluate7.
+ */
+export function evaluateCodes(codes: ArrayLike<number>, count = codes.length): number {
+  let seen1 = 0;
+  let seen2 = 0;
+  let seen3 = 0;
+  let seen4 = 0;
+  let suit0 = 0;
+  let suit1 = 0;
+  let suit2 = 0;
+  let suit3 = 0;
+
+  for (let i = 0; i < count; i++) {
+    const code = codes[i];
+    const bit = 1 << (code >> 2);
+    if (seen3 & bit) seen4 |= bit;
+    else if (seen2 & bit) seen3 |= bit;
+    else if (seen1 & bit) seen2 |= bit;
+    else seen1 |= bit;
+
+    switch (code & 3) {
+      case 0: suit0 |= bit; break;
+      case 1: suit1 |= bit; break;
+      case 2: suit2 |= bit; break;
+      default: suit3 |= bit;
+    }
+  }
+
+  // Seven cards hold at most one five-card suit
+  const flushMask =
+    RANK_COUNT[suit0] >= 5 ? suit0 :
+    RANK_COUNT[suit1] >= 5 ? suit1 :
+    RANK_COUNT[suit2] >= 5 ? suit2 :
+    RANK_COUNT[suit3] >= 5 ? suit3 : 0;
+
+  if (flushMask && STRAIGHT_HIGH[flushMask]) {
+    return 8 * CATEGORY + (STRAIGHT_HIGH[flushMask] << 16);
+  }
+
+  if (seen4) {
+    const quad = highRank(seen4);
+    const kicker = highRank(seen1 & ~rankBit(quad));
+    return 7 * CATEGORY + (quad << 16) + (kicker << 12);
+  }
+
+  if (seen3) {
+    const trips = highRank(seen3);
+    const pairs = seen2 & ~rankBit(trips);
+    if (pairs) return 6 * CATEGORY + (trips << 16) + (highRank(pairs) << 12);
+  }
+
+  if (flushMask) return 5 * CATEGORY + TOP5[flushMask];
+
+  if (STRAIGHT_HIGH[seen1]) return 4 * CATEGORY + (STRAIGHT_HIGH[seen1] << 16);
+
+  if (seen3) {
+    const trips = highRank(seen3);
+    const kickers = (TOP5[seen1 & ~rankBit(trips)] >>> 4) & 0xff00;
+    return 3 * CATEGORY + (trips << 16) + kickers;
+  }
+
+  if (RANK_COUNT[seen2] >= 2) {
+    const high = highRank(seen2);
+    const low = highRank(seen2 & ~rankBit(high));
+    const kicker = (TOP5[seen1 & ~rankBit(high) & ~rankBit(low)] >>> 8) & 0xf00;
+    return 2 * CATEGORY + (high << 16) + (low << 12) + kicker;
+  }
+
+  if (seen2) {
+    const pair = highRank(seen2);
+    const kickers = (TOP5[seen1 & ~rankBit(pair)] >>> 4) & 0xfff0;
+    return CATEGORY + (pair << 16) + kickers;
+  }
+
+  return TOP5[seen1];
+}
+
+// Tiebreak values each category's number[] carries, when there are enough ranks
+const SCORE_LENGTH = [5, 4, 3, 3, 1, 5, 2, 2, 1];
+
+/**
+ * Packed score -> [category, ...tiebreaks]. Short hands (fewer than five
+ * cards) only list kickers they actually hold, as the old evaluator did.
+ */
+function scoreToArray(score: number, distinctRanks: number): number[] {
+  const category = Math.floor(score / CATEGORY);
+  let length = SCORE_LENGTH[category];
+  if (category === 0) length = Math.min(length, distinctRanks);
+  if (category === 1 || category === 3) length = Math.min(length, distinctRanks);
+
+  const out = [category];
+  for (let i = 0; i < length; i++) out.push((score >>> (16 - 4 * i)) & 0xf);
+  return out;
+}
+
+/**
+ * Best hand in up to seven cards as [category, ...tiebreaks]:
+ * 8: [8, sfHigh], 7: [7, quad, kicker], 6: [6, trips, pair],
+ * 5: [5, v1..v5], 4: [4, straightHigh], 3: [3, trips, k1, k2],
+ * 2: [2, highPair, lowPair, kicker], 1: [1, pair, k1, k2, k3], 0: [0, h1..h5]
+ */
+export function evaluate7(cards: Card[]): number[] {
+  const codes = cards.map(cardCode);
+  let ranks = 0;
+  for (const code of codes) ranks |= 1 << (code >> 2);
+  return scoreToArray(evaluateCodes(codes), RANK_COUNT[ranks]);
+}
+
+export function compareScore(a: number[], b: number[]) {
+  const len = Math.max(a.length, b.length);
+  for (let i = 0; i < len; i++) {
+    const av = a[i] ?? 0;
+    const bv = b[i] ?? 0;
+    if (av > bv) return 1;
+    if (av < bv) return -1;
+  }
+  return 0;
+}
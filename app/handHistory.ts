@@ -0,0 +1,615 @@
+/**
+ * Hand Histories
+ *
+ * Converts between the in-app hand log (HandLogSnapshot) and PokerStars-style
+ * hand history text, and steps through a hand for the replayer.
+ * - formatHandHistory / formatSessionHistory: export one hand or a session
+ * - parseHandHistories: import a file (ours or PokerStars) into snapshots
+ * - replayFrames: the table after each logged action
+ *
+ * Amounts are written in chips (1 BB of the first blind level = 100).
+ */
+
+import type { ActionLogItem, Card, Seat, Street, StreetName } from "./multiplayerHost";
+import type { ActionEvent } from "./actionLog";
+import { bbToChips } from "./chips";
+import { getBlindLevel } from "./blinds";
+import type { BotStyle } from "./pokerBot";
+import { botName, botStyleFromName } from "./pokerBot";
+
+export type HandLogSnapshot = {
+  handNo: number;
+  dealer: Seat;
+  endedStreet: Street;
+  endedBoard: Card[];
+  log: ActionLogItem[];
+
+  heroPos: "SB" | "BB";
+  oppPos: "SB" | "BB";
+
+  heroCards: [Card, Card];
+  // null when the opponent's cards were never visible to us
+  oppCards: [Card, Card] | null;
+
+  // true only if player actually showed / was required to show
+  heroShown: boolean;
+  oppShown: boolean;
+
+  heroStartStack: number;
+  oppStartStack: number;
+
+  // Best 5-card hands
+  heroBest5?: Card[];
+  oppBest5?: Card[];
+  heroHandDesc?: string;
+  oppHandDesc?: string;
+
+  // Blind level index and when the hand ended (missing in older snapshots)
+  blindLevel?: number;
+  playedAt?: number;
+
+  // Player names, for imported hands
+  heroName?: string;
+  oppName?: string;
+
+  // Style of the AI opponent, for hands played against the bot
+  oppStyle?: BotStyle;
+
+  // PIN-game session the hand was played in: Play Again starts a new one and
+  // numbers hands from 0 again (missing outside PIN games)
+  gameSession?: number;
+};
+
+export type HandHistoryOptions = {
+  heroName: string;
+  oppName: string;
+  tableName: string;  // e.g. "HeadsUp 1234"
+  sessionId: number;  // unique per session (a start timestamp works); prefixes hand numbers
+};
+
+const SUIT_LETTERS: Record<string, string> = { "♠": "s", "♥": "h", "♦": "d", "♣": "c" };
+const STREET_ORDER: StreetName[] = ["Preflop", "Flop", "Turn", "River"];
+const ROMAN: [number, string][] = [
+  [1000, "M"], [900, "CM"], [500, "D"], [400, "CD"], [100, "C"], [90, "XC"],
+  [50, "L"], [40, "XL"], [10, "X"], [9, "IX"], [5, "V"], [4, "IV"], [1, "I"],
+];
+
+// Tournament levels are numbered in Roman numerals (level index 0 -> "I")
+function romanNumeral(n: number) {
+  let out = "";
+  for (const [value, numeral] of ROMAN) {
+    for (; n >= value; n -= value) out += numeral;
+  }
+  return out;
+}
+
+function parseRomanNumeral(text: string) {
+  let n = 0;
+  let rest = text;
+  for (const [value, numeral] of ROMAN) {
+    while (rest.startsWith(numeral)) {
+      n += value;
+      rest = rest.slice(numeral.length);
+    }
+  }
+  return rest === "" ? n : 0;
+}
+
+function cardText(card: Card) {
+  return `${card.rank}${SUIT_LETTERS[card.suit] ?? card.suit}`;
+}
+
+function cardsText(cards: Card[]) {
+  return `[${cards.map(cardText).join(" ")}]`;
+}
+
+function formatDate(ms: number) {
+  const d = new Date(ms);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getUTCFullYear()}/${pad(d.getUTCMonth() + 1)}/${pad(d.getUTCDate())} ` +
+    `${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}:${pad(d.getUTCSeconds())} UTC`;
+}
+
+function other(seat: Seat): Seat {
+  return seat === "top" ? "bottom" : "top";
+}
+
+// The seat the hero sat in (the dealer posts the small blind)
+export function heroSeatOf(snap: HandLogSnapshot): Seat {
+  return snap.heroPos === "SB" ? snap.dealer : other(snap.dealer);
+}
+
+/**
+ * One hand in PokerStars format
+ */
+export function formatHandHistory(snap: HandLogSnapshot, options: HandHistoryOptions): string {
+  const heroSeat = heroSeatOf(snap);
+  // The bot plays under its style's name so results can be compared per style
+  const oppName = snap.oppStyle ? botName(snap.oppStyle) : options.oppName;
+  const name = (seat: Seat) => (seat === heroSeat ? options.heroName : oppName);
+
+  const levelIndex = snap.blindLevel ?? 0;
+  const level = getBlindLevel(levelIndex);
+  const handNumber = `${options.sessionId}${String(snap.handNo + 1).padStart(4, "0")}`;
+
+  const stacks: Record<Seat, number> = {
+    top: heroSeat === "top" ? snap.heroStartStack : snap.oppStartStack,
+    bottom: heroSeat === "bottom" ? snap.heroStartStack : snap.oppStartStack,
+  };
+  const committed: Record<Seat, number> = { top: 0, bottom: 0 }; // this street
+  const collected: Record<Seat, number> = { top: 0, bottom: 0 };
+  const showedCards: Partial<Record<Seat, Card[]>> = {};
+  const muckedSeats = new Set<Seat>();
+  let foldedOn: { seat: Seat; street: StreetName } | null = null;
+
+  const lines: string[] = [
+    `PokerStars Hand #${handNumber}: Tournament #${options.sessionId}, Hold'em No Limit - ` +
+      `Level ${romanNumeral(levelIndex + 1)} (${level.sb}/${level.bb}) - ${formatDate(snap.playedAt ?? Date.now())}`,
+    `Table '${options.tableName}' 2-max Seat #1 is the button`,
+    `Seat 1: ${name(snap.dealer)} (${stacks[snap.dealer]} in chips)`,
+    `Seat 2: ${name(other(snap.dealer))} (${stacks[other(snap.dealer)]} in chips)`,
+  ];
+
+  let streetIndex = 0;
+  let holeCardsWritten = false;
+  let showdownWritten = false;
+
+  const writeHoleCards = () => {
+    if (holeCardsWritten) return;
+    holeCardsWritten = true;
+    lines.push("*** HOLE CARDS ***");
+    lines.push(`Dealt to ${options.heroName} ${cardsText(snap.heroCards)}`);
+  };
+
+  // Deal streets up to `street`, writing each header with its board cards
+  const advanceTo = (street: StreetName) => {
+    writeHoleCards();
+    const target = STREET_ORDER.indexOf(street);
+    while (streetIndex < target) {
+      streetIndex++;
+      const boardSize = streetIndex + 2; // flop 3, turn 4, river 5
+      if (snap.endedBoard.length < boardSize) return;
+
+      committed.top = 0;
+      committed.bottom = 0;
+      const header = `*** ${STREET_ORDER[streetIndex].toUpperCase()} ***`;
+      lines.push(
+        streetIndex === 1
+          ? `${header} ${cardsText(snap.endedBoard.slice(0, 3))}`
+          : `${header} ${cardsText(snap.endedBoard.slice(0, boardSize - 1))} ${cardsText([snap.endedBoard[boardSize - 1]])}`
+      );
+    }
+  };
+
+  // Give back what a bettor put in that the other player never matched
+  const returnUncalled = (seat: Seat) => {
+    const excess = committed[seat] - committed[other(seat)];
+    if (excess <= 0) return 0;
+    committed[seat] -= excess;
+    stacks[seat] += excess;
+    lines.push(`Uncalled bet (${excess}) returned to ${name(seat)}`);
+    return excess;
+  };
+
+  const put = (seat: Seat, chips: number) => {
+    committed[seat] += chips;
+    stacks[seat] -= chips;
+  };
+
+  const log = [...snap.log].sort((a, b) => a.sequence - b.sequence);
+
+  for (const item of log) {
+    const { event } = item;
+    const amount = event.amount ?? 0;
+    const allIn = event.allIn ? " and is all-in" : "";
+    const who = name(item.seat);
+
+    switch (event.kind) {
+      case "ante":
+        stacks[item.seat] -= amount;
+        lines.push(`${who}: posts the ante ${amount}${allIn}`);
+        break;
+      case "smallBlind":
+        put(item.seat, amount);
+        lines.push(`${who}: posts small blind ${amount}${allIn}`);
+        break;
+      case "bigBlind":
+        put(item.seat, amount);
+        lines.push(`${who}: posts big blind ${amount}${allIn}`);
+        break;
+      case "check":
+        advanceTo(item.street);
+        lines.push(`${who}: checks`);
+        break;
+      case "fold":
+        advanceTo(item.street);
+        foldedOn = { seat: item.seat, street: item.street };
+        lines.push(`${who}: folds`);
+        break;
+      case "call":
+        advanceTo(item.street);
+        put(item.seat, amount);
+        lines.push(`${who}: calls ${amount}${allIn}`);
+        // A short all-in call gives back what it couldn't match
+        if (event.allIn) returnUncalled(other(item.seat));
+        break;
+      case "bet":
+      case "raise": {
+        advanceTo(item.street);
+        const facing = committed[other(item.seat)];
+        put(item.seat, amount - committed[item.seat]);
+        lines.push(
+          facing > 0
+            ? `${who}: raises ${amount - facing} to ${amount}${allIn}`
+            : `${who}: bets ${amount}${allIn}`
+        );
+        break;
+      }
+      case "timeout":
+        lines.push(`${who} has timed out`);
+        break;
+      case "show": {
+        const cards = event.cards ?? (item.seat === heroSeat ? snap.heroCards : snap.oppCards) ?? [];
+        showedCards[item.seat] = cards;
+        if (!foldedOn && !showdownWritten) {
+          advanceTo(STREET_ORDER[Math.max(0, snap.endedStreet - 2)] ?? "River");
+          showdownWritten = true;
+          lines.push("*** SHOW DOWN ***");
+        }
+        lines.push(`${who}: shows ${cardsText(cards)}`);
+        break;
+      }
+      case "muck":
+        muckedSeats.add(item.seat);
+        lines.push(`${who}: mucks hand`);
+        break;
+      case "win":
+        // The logged amount includes any uncalled bet
+        collected[item.seat] += amount - returnUncalled(item.seat);
+        lines.push(`${who} collected ${collected[item.seat]} from pot`);
+        break;
+      case "split":
+        collected[item.seat] += amount;
+        lines.push(`${who} collected ${amount} from pot`);
+        break;
+    }
+  }
+  writeHoleCards();
+
+  // Summary
+  const totalPot = collected.top + collected.bottom;
+  lines.push("*** SUMMARY ***");
+  lines.push(`Total pot ${totalPot} | Rake 0`);
+  if (snap.endedBoard.length > 0) lines.push(`Board ${cardsText(snap.endedBoard)}`);
+
+  const handDesc = (seat: Seat) => (seat === heroSeat ? snap.heroHandDesc : snap.oppHandDesc);
+  const summaryFor = (seat: Seat) => {
+    const label = seat === snap.dealer ? "(button) (small blind)" : "(big blind)";
+    let result: string;
+
+    if (foldedOn?.seat === seat) {
+      result = foldedOn.street === "Preflop" ? "folded before Flop" : `folded on the ${foldedOn.street}`;
+    } else if (foldedOn) {
+      result = `collected (${collected[seat]})`;
+    } else if (muckedSeats.has(seat)) {
+      result = "mucked";
+    } else {
+      const cards = showedCards[seat] ?? (seat === heroSeat ? snap.heroCards : null);
+      const desc = handDesc(seat) ? ` with ${handDesc(seat)}` : "";
+      const shown = cards ? `showed ${cardsText(cards)} and ` : "";
+      result = collected[seat] > 0 ? `${shown}won (${collected[seat]})${desc}` : `${shown}lost${desc}`;
+    }
+    return `Seat ${seat === snap.dealer ? 1 : 2}: ${name(seat)} ${label} ${result}`;
+  };
+  lines.push(summaryFor(snap.dealer));
+  lines.push(summaryFor(other(snap.dealer)));
+  return lines.join("\n");
+}
+
+/**
+ * Every hand of a session, oldest first. `history` is newest first, like handLogHistory.
+ */
+export function formatSessionHistory(history: HandLogSnapshot[], options: HandHistoryOptions): string {
+  return [...history]
+    .reverse()
+    .map((snap) => formatHandHistory(snap, options))
+    .join("\n\n\n");
+}
+
+/* ---------- import ---------- */
+
+const SUIT_SYMBOLS: Record<string, string> = { s: "♠", h: "♥", d: "♦", c: "♣" };
+
+export type ImportedHandHistory = {
+  hands: HandLogSnapshot[];
+  skipped: number; // hands that weren't heads-up or had no hole cards for the hero
+};
+
+function parseCardToken(token: string): Card | null {
+  const m = /^(10|[2-9TJQKA])([shdc])$/i.exec(token.trim());
+  if (!m) return null;
+  return { rank: m[1] === "10" ? "T" : m[1].toUpperCase(), suit: SUIT_SYMBOLS[m[2].toLowerCase()] };
+}
+
+function parseCardList(text: string): Card[] {
+  return text
+    .split(/\s+/)
+    .map(parseCardToken)
+    .filter((c): c is Card => c !== null);
+}
+
+// "1,250", "$0.50", "€2" -> number
+function parseAmount(text: string): number {
+  return Number(text.replace(/[^\d.]/g, "")) || 0;
+}
+
+function parseDate(text: string): number | undefined {
+  const m = /(\d{4})\/(\d{2})\/(\d{2}) (\d{1,2}):(\d{2}):(\d{2})/.exec(text);
+  if (!m) return undefined;
+  return Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6]);
+}
+
+/**
+ * One PokerStars hand -> snapshot, with the hero ("Dealt to") in the bottom seat
+ */
+function parseHand(block: string, handNo: number): HandLogSnapshot | null {
+  const lines = block.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
+  const header = lines[0] ?? "";
+
+  const blinds = /\(([^/()]+)\/([^/()\s]+)[^)]*\)/.exec(header);
+  const bigBlind = blinds ? parseAmount(blinds[2]) : 0;
+  if (!bigBlind) return null;
+
+  // Our own exports are already in chips at a known blind level; anything
+  // else is rescaled to its own big blind
+  const levelIndex = parseRomanNumeral(/ - Level ([IVXLCDM]+) /.exec(header)?.[1] ?? "") - 1;
+  const ownExport =
+    /^Table 'HeadsUp /m.test(block) && levelIndex >= 0 && getBlindLevel(levelIndex).bb === bigBlind;
+  const chips = (text: string) =>
+    ownExport ? Math.round(parseAmount(text)) : bbToChips(parseAmount(text) / bigBlind);
+
+  const buttonSeatNo = Number(/Seat #(\d+) is the button/.exec(block)?.[1] ?? 0);
+
+  // Seats listed before the deal (the summary lists them again)
+  const players: { seatNo: number; name: string; stack: number }[] = [];
+  for (const line of lines) {
+    if (line.startsWith("*** ")) break;
+    const m = /^Seat (\d+): (.+?) \(([^)]*?) in chips/.exec(line);
+    if (m) players.push({ seatNo: Number(m[1]), name: m[2], stack: chips(m[3]) });
+  }
+  if (players.length !== 2) return null;
+
+  const dealt = /^Dealt to (.+?) \[([^\]]+)\]/m.exec(block);
+  const heroCards = dealt ? parseCardList(dealt[2]) : [];
+  const hero = players.find((p) => p.name === dealt?.[1]);
+  if (!hero || heroCards.length !== 2) return null;
+  const opp = players.find((p) => p !== hero)!;
+
+  const seatOf = (name: string): Seat => (name === hero.name ? "bottom" : "top");
+  const dealer: Seat = buttonSeatNo === opp.seatNo ? "top" : "bottom";
+
+  const log: ActionLogItem[] = [];
+  let street: StreetName = "Preflop";
+  let board: Card[] = [];
+  const shown: Partial<Record<Seat, Card[]>> = {};
+  const handDescs: Partial<Record<Seat, string>> = {};
+  const uncalled: Record<Seat, number> = { top: 0, bottom: 0 };
+  const collected: { seat: Seat; amount: number }[] = [];
+
+  // potAfter is filled in from the replay once the log is complete
+  const push = (seat: Seat, event: Omit<ActionEvent, "potAfter">) => {
+    log.push({ id: `import-${handNo}-${log.length}`, sequence: log.length, street, seat, event: { ...event, potAfter: 0 } });
+  };
+
+  for (const line of lines.slice(1)) {
+    const streetHeader = /^\*\*\* (FLOP|TURN|RIVER|SUMMARY|SHOW ?DOWN) \*\*\*(.*)$/.exec(line);
+    if (streetHeader) {
+      if (streetHeader[1] === "SUMMARY") break;
+      if (!streetHeader[1].startsWith("SHOW")) {
+        street = (streetHeader[1][0] + streetHeader[1].slice(1).toLowerCase()) as StreetName;
+        board = parseCardList(streetHeader[2].replace(/[[\]]/g, " "));
+      }
+      continue;
+    }
+
+    const returned = /^Uncalled bet \(([^)]+)\) returned to (.+)$/.exec(line);
+    if (returned) {
+      uncalled[seatOf(returned[2])] += chips(returned[1]);
+      continue;
+    }
+
+    const won = /^(.+?) collected (\S+) from (?:side |main )?pot/.exec(line);
+    if (won && players.some((p) => p.name === won[1])) {
+      collected.push({ seat: seatOf(won[1]), amount: chips(won[2]) });
+      continue;
+    }
+
+    const player = players.find((p) => line.startsWith(`${p.name}: `) || line.startsWith(`${p.name} has timed out`));
+    if (!player) continue;
+    const seat = seatOf(player.name);
+    const action = line.slice(player.name.length + 1).trim();
+
+    const allIn = / and is all-in/.test(action) || undefined;
+    let m: RegExpExecArray | null;
+    if (/^has timed out/.test(action)) push(seat, { kind: "timeout" });
+    else if ((m = /^posts the ante (\S+)/.exec(action))) push(seat, { kind: "ante", amount: chips(m[1]), allIn });
+    else if ((m = /^posts small blind (\S+)/.exec(action))) push(seat, { kind: "smallBlind", amount: chips(m[1]), allIn });
+    else if ((m = /^posts big blind (\S+)/.exec(action))) push(seat, { kind: "bigBlind", amount: chips(m[1]), allIn });
+    else if (/^checks/.test(action)) push(seat, { kind: "check" });
+    else if (/^folds/.test(action)) push(seat, { kind: "fold" });
+    else if ((m = /^calls (\S+)/.exec(action))) push(seat, { kind: "call", amount: chips(m[1]), allIn });
+    else if ((m = /^bets (\S+)/.exec(action))) push(seat, { kind: "bet", amount: chips(m[1]), allIn });
+    else if ((m = /^raises \S+ to (\S+)/.exec(action))) push(seat, { kind: "raise", amount: chips(m[1]), allIn });
+    else if ((m = /^shows \[([^\]]+)\](?: \((.+)\))?/.exec(action))) {
+      const cards = parseCardList(m[1]);
+      shown[seat] = cards;
+      if (m[2]) handDescs[seat] = m[2];
+      push(seat, { kind: "show", cards });
+    } else if (/^mucks|^doesn't show/.test(action)) push(seat, { kind: "muck" });
+  }
+
+  // After a fold the app logs the whole pot the winner takes, including their
+  // own uncalled bet (a short all-in call is refunded before the showdown)
+  const split = new Set(collected.map((c) => c.seat)).size > 1;
+  const foldedOut = log.some((it) => it.event.kind === "fold");
+  for (const { seat, amount } of collected) {
+    push(seat, {
+      kind: split ? "split" : "win",
+      amount: amount + (foldedOut ? uncalled[seat] : 0),
+      showdown: !foldedOut || undefined,
+    });
+  }
+
+  const summaryBoard = /^Board \[([^\]]+)\]/m.exec(block);
+  if (summaryBoard) board = parseCardList(summaryBoard[1]);
+
+  const oppCards = shown.top?.length === 2 ? (shown.top as [Card, Card]) : null;
+
+  const snap: HandLogSnapshot = {
+    handNo,
+    dealer,
+    endedStreet: (board.length >= 3 ? board.length : 0) as Street,
+    endedBoard: board,
+    log,
+    heroPos: dealer === "bottom" ? "SB" : "BB",
+    oppPos: dealer === "top" ? "SB" : "BB",
+    heroCards: [heroCards[0], heroCards[1]],
+    oppCards,
+    heroShown: !!shown.bottom,
+    oppShown: !!oppCards,
+    heroStartStack: hero.stack,
+    oppStartStack: opp.stack,
+    heroHandDesc: handDescs.bottom,
+    oppHandDesc: handDescs.top,
+    blindLevel: ownExport ? levelIndex : undefined,
+    playedAt: parseDate(header),
+    heroName: hero.name,
+    oppName: opp.name,
+    oppStyle: botStyleFromName(opp.name),
+  };
+
+  replayFrames(snap)
+    .slice(1)
+    .forEach((frame, i) => {
+      log[i].event.potAfter = frame.pot + frame.bets.top + frame.bets.bottom;
+    });
+  return snap;
+}
+
+/**
+ * Parse a hand history file (exported from here, or any PokerStars-format
+ * text). Only heads-up hands with the hero's hole cards can be replayed.
+ */
+export function parseHandHistories(text: string): ImportedHandHistory {
+  const blocks = text
+    .replace(/^\uFEFF/, "")
+    .split(/^(?=PokerStars (?:Zoom )?(?:Hand|Game) #)/m)
+    .filter((b) => /^PokerStars /.test(b));
+
+  const hands: HandLogSnapshot[] = [];
+  let skipped = 0;
+  for (const block of blocks) {
+    const snap = parseHand(block, hands.length);
+    if (snap) hands.push(snap);
+    else skipped++;
+  }
+  return { hands, skipped };
+}
+
+/* ---------- replay ---------- */
+
+// The table as it stands after some number of log items
+export type ReplayFrame = {
+  street: StreetName;
+  board: Card[];
+  stacks: Record<Seat, number>;
+  bets: Record<Seat, number>; // this street
+  pot: number;                // pulled in from earlier streets
+  revealed: Record<Seat, boolean>;
+  lastAction: ActionLogItem | null;
+};
+
+/**
+ * Every step of a hand: frame 0 is the deal, frame i follows log item i - 1.
+ */
+export function replayFrames(snap: HandLogSnapshot): ReplayFrame[] {
+  const heroSeat = heroSeatOf(snap);
+  const log = [...snap.log].sort((a, b) => a.sequence - b.sequence);
+
+  let frame: ReplayFrame = {
+    street: "Preflop",
+    board: [],
+    stacks: {
+      top: heroSeat === "top" ? snap.heroStartStack : snap.oppStartStack,
+      bottom: heroSeat === "bottom" ? snap.heroStartStack : snap.oppStartStack,
+    },
+    bets: { top: 0, bottom: 0 },
+    pot: 0,
+    revealed: { top: false, bottom: false },
+    lastAction: null,
+  };
+  const frames = [frame];
+
+  for (const item of log) {
+    const { event } = item;
+    const amount = event.amount ?? 0;
+    const next: ReplayFrame = {
+      ...frame,
+      stacks: { ...frame.stacks },
+      bets: { ...frame.bets },
+      revealed: { ...frame.revealed },
+      lastAction: item,
+    };
+
+    // New street: bets go into the pot and the board catches up
+    if (STREET_ORDER.indexOf(item.street) > STREET_ORDER.indexOf(next.street)) {
+      next.pot += next.bets.top + next.bets.bottom;
+      next.bets = { top: 0, bottom: 0 };
+      next.street = item.street;
+      next.board = snap.endedBoard.slice(0, STREET_ORDER.indexOf(item.street) + 2);
+    }
+
+    const seat = item.seat;
+    switch (event.kind) {
+      case "ante":
+        next.stacks[seat] -= amount;
+        next.pot += amount;
+        break;
+      case "smallBlind":
+      case "bigBlind":
+      case "call":
+        next.stacks[seat] -= amount;
+        next.bets[seat] += amount;
+        // A short all-in call: the unmatched part goes back to the bettor
+        if (event.kind === "call" && event.allIn && next.bets[other(seat)] > next.bets[seat]) {
+          const excess = next.bets[other(seat)] - next.bets[seat];
+          next.bets[other(seat)] -= excess;
+          next.stacks[other(seat)] += excess;
+        }
+        break;
+      case "bet":
+      case "raise":
+        next.stacks[seat] -= amount - next.bets[seat];
+        next.bets[seat] = amount;
+        break;
+      case "show":
+        next.revealed[seat] = true;
+        next.board = snap.endedBoard;
+        break;
+      case "win":
+      case "split": {
+        // A split leaves the other share in the middle until it's logged
+        const total = next.pot + next.bets.top + next.bets.bottom;
+        next.stacks[seat] += amount;
+        next.pot = event.kind === "split" ? Math.max(0, total - amount) : 0;
+        next.bets = { top: 0, bottom: 0 };
+        break;
+      }
+    }
+
+    frames.push(next);
+    frame = next;
+  }
+
+  return frames;
+}
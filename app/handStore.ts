@@ -0,0 +1,255 @@
+/**
+ * Hand Storage
+ *
+ * Completed PIN-game hands are written to Supabase so players can browse
+ * past games after the tab is closed, and for lifetime stats.
+ * - hands: one row per player per hand, linked to the games row and keyed by
+ *   session and hand number (Play Again restarts hand numbers in a new session)
+ * - hand_actions: the hand's action log, one row (typed event) per logged action
+ *
+ * Each player saves the hand from their own seat, with only what their client
+ * was allowed to see: their own hole cards, plus the opponent's only if they
+ * were shown. Mucked cards never leave the host.
+ *
+ * Supabase caps how many rows one request returns, so the loaders read a page
+ * at a time, ordered on a unique key.
+ */
+
+import { supabase } from "@/lib/supabaseClient";
+import type { Card, HostState, Seat, Street, StreetName } from "./multiplayerHost";
+import type { ActionEvent } from "./actionLog";
+import type { HandLogSnapshot } from "./handHistory";
+import type { BotStyle } from "./pokerBot";
+
+type HandRow = {
+  id: string;
+  game_id: string;
+  user_id: string;
+  game_session: number;
+  hand_no: number;
+  seat: Seat;
+  dealer_seat: Seat;
+  blind_level: number | null;
+  ended_street: Street;
+  board: Card[];
+  hole_cards: [Card, Card];
+  opp_cards: [Card, Card] | null;
+  hero_start_stack: number;
+  opp_start_stack: number;
+  hero_hand_desc: string | null;
+  opp_hand_desc: string | null;
+  opp_style: BotStyle | null;
+  winner: Seat | "tie" | null;
+  end_reason: "fold" | "showdown" | null;
+  played_at: string;
+};
+
+type HandActionRow = {
+  hand_id: string;
+  sequence: number;
+  street: StreetName;
+  seat: Seat;
+  event: ActionEvent;
+};
+
+export type PastGame = {
+  gameId: string;
+  handCount: number;
+  firstPlayedAt: string;
+  lastPlayedAt: string;
+};
+
+// Rows asked for per request (Supabase's default cap)
+const PAGE_SIZE = 1000;
+
+/**
+ * Every row of a query, read with `page(from, to)` (the query's .range())
+ * until a page comes back empty, so a server cap below PAGE_SIZE can't cut
+ * the list short. The query must be ordered on a unique key so pages
+ * neither overlap nor skip rows.
+ */
+async function selectAllPages<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<{ data: T[] | null; error: unknown }> {
+  const rows: T[] = [];
+  for (;;) {
+    const { data, error } = await page(rows.length, rows.length + PAGE_SIZE - 1);
+    if (error || !data) return { data: null, error };
+    if (data.length === 0) return { data: rows, error: null };
+    rows.push(...data);
+  }
+}
+
+/**
+ * Save (or update, when a Show Hand adds to the log) one finished hand.
+ * `seat` is the saving player's seat.
+ */
+export async function saveHand(
+  gameId: string,
+  userId: string,
+  seat: Seat,
+  snap: HandLogSnapshot,
+  result: HostState["handResult"]
+): Promise<void> {
+  const row: Omit<HandRow, "id"> = {
+    game_id: gameId,
+    user_id: userId,
+    game_session: snap.gameSession ?? 0,
+    hand_no: snap.handNo,
+    seat,
+    dealer_seat: snap.dealer,
+    blind_level: snap.blindLevel ?? null,
+    ended_street: snap.endedStreet,
+    board: snap.endedBoard,
+    hole_cards: snap.heroCards,
+    opp_cards: snap.oppShown ? snap.oppCards : null,
+    hero_start_stack: snap.heroStartStack,
+    opp_start_stack: snap.oppStartStack,
+    hero_hand_desc: snap.heroHandDesc ?? null,
+    opp_hand_desc: snap.oppShown ? snap.oppHandDesc ?? null : null,
+    opp_style: snap.oppStyle ?? null,
+    winner: result.winner,
+    end_reason: result.reason,
+    played_at: new Date(snap.playedAt ?? Date.now()).toISOString(),
+  };
+
+  const { data, error } = await supabase
+    .from("hands")
+    .upsert(row, { onConflict: "game_id,user_id,game_session,hand_no" })
+    .select("id")
+    .single();
+
+  if (error || !data) {
+    console.error("hands.upsert failed:", error);
+    return;
+  }
+
+  const actions: HandActionRow[] = snap.log.map((item) => ({
+    hand_id: data.id,
+    sequence: item.sequence,
+    street: item.street,
+    seat: item.seat,
+    event: item.event,
+  }));
+
+  const { error: actionsErr } = await supabase
+    .from("hand_actions")
+    .upsert(actions, { onConflict: "hand_id,sequence", ignoreDuplicates: true });
+
+  if (actionsErr) console.error("hand_actions.upsert failed:", actionsErr);
+}
+
+/**
+ * The signed-in player's games that have saved hands, newest first
+ */
+export async function loadPastGames(userId: string): Promise<PastGame[]> {
+  const { data, error } = await selectAllPages<Pick<HandRow, "game_id" | "played_at">>((from, to) =>
+    supabase
+      .from("hands")
+      .select("game_id, played_at")
+      .eq("user_id", userId)
+      .order("played_at", { ascending: false })
+      .order("id", { ascending: false })
+      .range(from, to)
+  );
+
+  if (error || !data) {
+    console.error("Error loading past games:", error);
+    return [];
+  }
+
+  const games = new Map<string, PastGame>();
+  for (const hand of data) {
+    const game = games.get(hand.game_id);
+    if (game) {
+      game.handCount++;
+      game.firstPlayedAt = hand.played_at;
+    } else {
+      games.set(hand.game_id, {
+        gameId: hand.game_id,
+        handCount: 1,
+        firstPlayedAt: hand.played_at,
+        lastPlayedAt: hand.played_at,
+      });
+    }
+  }
+  return Array.from(games.values());
+}
+
+type HandRowWithActions = HandRow & { hand_actions: HandActionRow[] };
+
+function rowToSnapshot(row: HandRowWithActions): HandLogSnapshot {
+  return {
+    handNo: row.hand_no,
+    gameSession: row.game_session,
+    dealer: row.dealer_seat,
+    endedStreet: row.ended_street,
+    endedBoard: row.board,
+    log: [...row.hand_actions]
+      .sort((a, b) => a.sequence - b.sequence)
+      .map((action) => ({
+        id: `${row.id}-${action.sequence}`,
+        sequence: action.sequence,
+        street: action.street,
+        seat: action.seat,
+        event: action.event,
+      })),
+    heroPos: row.dealer_seat === row.seat ? "SB" : "BB",
+    oppPos: row.dealer_seat === row.seat ? "BB" : "SB",
+    heroCards: row.hole_cards,
+    oppCards: row.opp_cards,
+    heroShown: true,
+    oppShown: row.opp_cards !== null,
+    heroStartStack: row.hero_start_stack,
+    oppStartStack: row.opp_start_stack,
+    heroHandDesc: row.hero_hand_desc ?? undefined,
+    oppHandDesc: row.opp_hand_desc ?? undefined,
+    oppStyle: row.opp_style ?? undefined,
+    blindLevel: row.blind_level ?? undefined,
+    playedAt: Date.parse(row.played_at),
+  };
+}
+
+/**
+ * Every saved hand of one game, oldest first (by session, then hand), as
+ * replayable snapshots
+ */
+export async function loadGameHands(gameId: string, userId: string): Promise<HandLogSnapshot[]> {
+  const { data, error } = await selectAllPages<HandRowWithActions>((from, to) =>
+    supabase
+      .from("hands")
+      .select("*, hand_actions(*)")
+      .eq("game_id", gameId)
+      .eq("user_id", userId)
+      .order("game_session", { ascending: true })
+      .order("hand_no", { ascending: true })
+      .range(from, to)
+  );
+
+  if (error || !data) {
+    console.error("Error loading game hands:", error);
+    return [];
+  }
+  return data.map(rowToSnapshot);
+}
+
+/**
+ * Every hand the player has saved, oldest first, for lifetime stats
+ */
+export async function loadLifetimeHands(userId: string): Promise<HandLogSnapshot[]> {
+  const { data, error } = await selectAllPages<HandRowWithActions>((from, to) =>
+    supabase
+      .from("hands")
+      .select("*, hand_actions(*)")
+      .eq("user_id", userId)
+      .order("played_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, to)
+  );
+
+  if (error || !data) {
+    console.error("Error loading lifetime hands:", error);
+    return [];
+  }
+  return data.map(rowToSnapshot);
+}
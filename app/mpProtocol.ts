@@ -0,0 +1,205 @@
+/**
+ * Multiplayer Wire Protocol
+ *
+ * Shared by multiplayerHost.ts, multiplayerJoiner.ts, multiplayerSpectator.ts
+ * and page.tsx.
+ *
+ * Everything a PIN game sends over its realtime channel is one "mp" broadcast
+ * event whose payload is an MpMessage, stamped with the protocol version and
+ * the sender's user id. Incoming payloads are checked before anything reads
+ * them: unknown events, another protocol version or malformed fields reject
+ * the whole message (and log why) rather than applying part of it.
+ *
+ * Host events (states, acks, rejections) are only taken from the game's host,
+ * the user who created it. Senders name themselves, so this keeps other
+ * subscribers' clients from being mistaken for the host, not a determined
+ * forger.
+ */
+
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import type { ActionLogItem, Card, GameAction, HostStateView, Seat } from "./multiplayerHost";
+import type { StateDelta } from "./stateSync";
+
+// Bump when a message changes shape; clients on another version are ignored
+export const PROTOCOL_VERSION = 2;
+
+export const MAX_NAME_LENGTH = 50;
+const MAX_REASON_LENGTH = 200;
+const MAX_ACTION_ID_LENGTH = 64;
+
+export type MpMessage =
+  // Players introduce themselves (the host binds the top seat to the first one)
+  | { event: "PLAYER_INFO"; name: string | null }
+  // Joiner -> host. An action names the hand and state version it was made
+  // against, and carries an id so a retried one is only applied once.
+  | { event: "ACTION"; seat: Seat; action: GameAction; actionId: string; handId: number; stateVersion: number }
+  | { event: "SHOW_HAND"; seat: Seat }
+  | { event: "SYNC"; kind: "REQUEST_SNAPSHOT" }
+  // Host -> joiner (see stateSync.ts)
+  | { event: "HOST_STATE"; epoch: number; state: HostStateView }
+  | { event: "HOST_STATE_DELTA"; epoch: number; baseVersion: number; version: number; delta: StateDelta }
+  | { event: "ACTION_ACK"; target: string; actionId: string }
+  | { event: "ACTION_REJECTED"; target: string; seat: Seat; action: GameAction | null; actionId: string | null; reason: string }
+  // Spectators
+  | { event: "SPECTATOR_JOIN" }
+  | { event: "SPECTATOR_LEAVE" }
+  | { event: "SPECTATOR_STATE"; epoch: number; state: HostStateView }
+  // Either player
+  | { event: "PLAY_AGAIN_REQUEST" }
+  | { event: "PLAY_AGAIN_ACCEPT" }
+  | { event: "PLAYER_QUIT" };
+
+// A message as it travels
+export type MpPayload = MpMessage & { v: number; sender: string };
+
+// Events only the host may send
+const HOST_EVENTS = new Set<string>([
+  "HOST_STATE",
+  "HOST_STATE_DELTA",
+  "ACTION_ACK",
+  "ACTION_REJECTED",
+  "SPECTATOR_STATE",
+]);
+
+/* ---------- validation ---------- */
+
+type Fields = Record<string, unknown>;
+
+const isObject = (x: unknown): x is Fields => typeof x === "object" && x !== null && !Array.isArray(x);
+const isSeat = (x: unknown): x is Seat => x === "top" || x === "bottom";
+const isCount = (x: unknown): x is number => typeof x === "number" && Number.isInteger(x) && x >= 0;
+const isShortString = (x: unknown, max: number): x is string => typeof x === "string" && x.length <= max;
+const isActionId = (x: unknown): x is string => isShortString(x, MAX_ACTION_ID_LENGTH) && x !== "";
+const isCard = (x: unknown): x is Card => isObject(x) && typeof x.rank === "string" && typeof x.suit === "string";
+const isStreetName = (x: unknown) => x === "Preflop" || x === "Flop" || x === "Turn" || x === "River";
+
+function isGameAction(x: unknown): x is GameAction {
+  if (!isObject(x)) return false;
+  if (x.type === "FOLD" || x.type === "CHECK" || x.type === "CALL") return true;
+  return x.type === "BET_RAISE_TO" && isCount(x.to) && x.to > 0;
+}
+
+function isActionLogItem(x: unknown): x is ActionLogItem {
+  return (
+    isObject(x) &&
+    typeof x.id === "string" && isCount(x.sequence) && isStreetName(x.street) && isSeat(x.seat) &&
+    isObject(x.event) && typeof x.event.kind === "string" && isCount(x.event.potAfter)
+  );
+}
+
+/**
+ * Whether `x` has the fields receivers rely on before the host's state
+ * reaches the UI. Also used on states patched together from deltas.
+ */
+export function isHostStateView(x: unknown): x is HostStateView {
+  if (!isObject(x)) return false;
+  const game = x.game;
+  return (
+    isObject(game) &&
+    isObject(game.stacks) && isCount(game.stacks.top) && isCount(game.stacks.bottom) &&
+    isObject(game.bets) && isCount(game.bets.top) && isCount(game.bets.bottom) &&
+    isCount(game.pot) &&
+    isCount(x.street) && isSeat(x.toAct) && isSeat(x.dealerSeat) &&
+    isCount(x.handId) && isCount(x.stateVersion) &&
+    (x.cards === null || (Array.isArray(x.cards) && x.cards.every((card) => card === null || isCard(card)))) &&
+    Array.isArray(x.actionLog) && x.actionLog.every(isActionLogItem) &&
+    isObject(x.handResult) &&
+    isObject(x.settings)
+  );
+}
+
+function isStateDelta(x: unknown): x is StateDelta {
+  return isObject(x) && isObject(x.set) && isCount(x.logFrom) && Array.isArray(x.log) && x.log.every(isActionLogItem);
+}
+
+// Why the fields of one event are wrong, or null when they're fine
+function checkFields(p: Fields): string | null {
+  switch (p.event) {
+    case "PLAYER_INFO":
+      return p.name === null || isShortString(p.name, MAX_NAME_LENGTH) ? null : "bad name";
+    case "ACTION":
+      if (!isSeat(p.seat)) return "bad seat";
+      if (!isActionId(p.actionId)) return "bad action id";
+      if (!isCount(p.handId) || !isCount(p.stateVersion)) return "bad hand or state version";
+      return isGameAction(p.action) ? null : "bad action";
+    case "SHOW_HAND":
+      return isSeat(p.seat) ? null : "bad seat";
+    case "SYNC":
+      return p.kind === "REQUEST_SNAPSHOT" ? null : "unknown SYNC kind";
+    case "HOST_STATE":
+    case "SPECTATOR_STATE":
+      if (!isCount(p.epoch)) return "bad epoch";
+      return isHostStateView(p.state) ? null : "bad state";
+    case "HOST_STATE_DELTA":
+      if (!isCount(p.epoch)) return "bad epoch";
+      if (!isCount(p.baseVersion) || !isCount(p.version) || p.version <= p.baseVersion) return "bad versions";
+      return isStateDelta(p.delta) ? null : "bad delta";
+    case "ACTION_ACK":
+      if (typeof p.target !== "string") return "bad target";
+      return isActionId(p.actionId) ? null : "bad action id";
+    case "ACTION_REJECTED":
+      if (typeof p.target !== "string" || !isSeat(p.seat)) return "bad target";
+      if (p.action !== null && !isGameAction(p.action)) return "bad action";
+      if (p.actionId !== null && !isActionId(p.actionId)) return "bad action id";
+      return isShortString(p.reason, MAX_REASON_LENGTH) ? null : "bad reason";
+    case "SPECTATOR_JOIN":
+    case "SPECTATOR_LEAVE":
+    case "PLAY_AGAIN_REQUEST":
+    case "PLAY_AGAIN_ACCEPT":
+    case "PLAYER_QUIT":
+      return null;
+    default:
+      return "unknown event";
+  }
+}
+
+/**
+ * The payload as a message, or null (logged) when it isn't a valid one
+ */
+export function parseMessage(payload: unknown): MpPayload | null {
+  const reject = (reason: string) => {
+    console.warn(`Rejected "mp" message: ${reason}`, payload);
+    return null;
+  };
+
+  if (!isObject(payload)) return reject("not an object");
+  if (payload.v !== PROTOCOL_VERSION) return reject(`protocol version ${String(payload.v)}, expected ${PROTOCOL_VERSION}`);
+  if (typeof payload.sender !== "string" || payload.sender === "") return reject("no sender");
+  if (typeof payload.event !== "string") return reject("no event");
+
+  const problem = checkFields(payload);
+  if (problem) return reject(`${payload.event}: ${problem}`);
+  return payload as MpPayload;
+}
+
+/* ---------- channel helpers ---------- */
+
+/**
+ * Call `handler` with every valid message on the channel that someone else
+ * sent. Host events from anyone but `hostId` are dropped (all of them when
+ * it's null).
+ */
+export function onMpMessage(
+  channel: RealtimeChannel,
+  userId: string,
+  hostId: string | null,
+  handler: (message: MpPayload) => void
+) {
+  channel.on("broadcast", { event: "mp" }, ({ payload }) => {
+    const message = parseMessage(payload);
+    if (!message || message.sender === userId) return;
+    if (HOST_EVENTS.has(message.event) && message.sender !== hostId) {
+      console.warn(`Rejected "mp" message: ${message.event} from ${message.sender}, who isn't the host`);
+      return;
+    }
+    handler(message);
+  });
+}
+
+/**
+ * Broadcast a message as `sender`
+ */
+export function sendMpMessage(channel: RealtimeChannel, sender: string, message: MpMessage) {
+  const payload: MpPayload = { ...message, v: PROTOCOL_VERSION, sender };
+  return channel.send({ type: "broadcast", event: "mp", payload });
+}
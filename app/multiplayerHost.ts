@@ -5,16 +5,36 @@
  * Host responsibilities:
  * - Run all game logic
  * - Deal cards
- * - Process actions from both players
+ * - Process actions from both players (only from the user who owns the seat)
  * - Broadcast state updates to joiner
  * - Determine winners, advance streets, etc.
+ * - Deal an all-in runout a street at a time, both hands face up
+ * - Run the shot clock; auto-check or auto-fold when a player runs out of time
+ * - Optionally play the top seat with the AI until a joiner takes it over
+ * - Stream a spectator view (no unshown hole cards, optionally delayed) to
+ *   anyone watching, on a channel of its own: the joiner's view carries the
+ *   joiner's hole cards, so spectators must never receive it
  */
 
 import type { RealtimeChannel } from "@supabase/supabase-js";
-import { GAME_CONFIG } from "./gameConfig";
+import { GAME_CONFIG, DEFAULT_GAME_SETTINGS, normalizeGameSettings } from "./gameConfig";
+import type { GameSettings } from "./gameConfig";
+import { CHIPS_PER_BB, bbToChips, splitPot } from "./chips";
+import { blindLevelIndexAt, getBlindLevel } from "./blinds";
+import { createDeck, shuffleDeck, commitDeal } from "./deck";
+import type { DealCommitment } from "./deck";
+import type { ActionEvent } from "./actionLog";
+import { compareScore, evaluate7 } from "./handEvaluator";
+import { validateAction, computeLegalActions } from "./bettingRules";
+import type { ActionValidation, LegalActions } from "./bettingRules";
+import { BOT_PROFILES, decideBotAction } from "./pokerBot";
+import type { BotStyle } from "./pokerBot";
+import { diffState } from "./stateSync";
+import { onMpMessage, sendMpMessage } from "./mpProtocol";
 
 // Types
 export type Seat = "top" | "bottom";
+export type Viewer = Seat | "spectator";
 export type Street = 0 | 3 | 4 | 5;
 export type StreetName = "Preflop" | "Flop" | "Turn" | "River";
 
@@ -23,6 +43,7 @@ export type Card = {
   suit: string;
 };
 
+// All amounts in whole chips (see chips.ts)
 export type GameState = {
   stacks: { top: number; bottom: number };
   bets: { top: number; bottom: number };
@@ -34,14 +55,22 @@ export type ActionLogItem = {
   sequence: number;
   street: StreetName;
   seat: Seat;
-  text: string;
+  event: ActionEvent; // display text comes from describeAction(event)
+};
+
+// Shot clock for the seat to act. Deadlines are host clock timestamps (ms).
+// The decision time runs out first, then the seat's time bank.
+export type ActionClock = {
+  seat: Seat;
+  decisionDeadline: number;
+  deadline: number; // decision time + time bank: auto-check/fold here
 };
 
 export type GameAction =
   | { type: "FOLD" }
   | { type: "CHECK" }
   | { type: "CALL" }
-  | { type: "BET_RAISE_TO"; to: number };
+  | { type: "BET_RAISE_TO"; to: number }; // total bet in chips
 
 // Complete game state that host broadcasts
 export type HostState = {
@@ -53,12 +82,24 @@ export type HostState = {
   // Cards
   cards: Card[] | null;
   
+  // Verifiable deal: commitment is published at hand start,
+  // salts are revealed (for visible cards only) once the hand has ended
+  dealCommitment: DealCommitment | null;
+  dealSalts: string[] | null;
+  
  // Hand info
 handId: number;
 dealerOffset: 0 | 1;
 dealerSeat: Seat;
 gameSession: number;
   
+  // Settings the host picked when creating the game
+  settings: GameSettings;
+  
+  // Blind level (index into BLIND_LEVELS), fixed when each hand starts
+  blindLevel: number;
+  gameStartedAt: number; // ms timestamp, for timed blind levels
+  
   // Action log
   actionLog: ActionLogItem[];
   actionSequence: number;
@@ -81,10 +122,21 @@ gameSession: number;
   actionsThisStreet: number;
   checked: { top: boolean; bottom: boolean };
   
+  // What toAct may do (null when nobody is to act)
+  legalActions: LegalActions | null;
+  
+  // Shot clock (null when the timer is off or nobody is to act)
+  actionClock: ActionClock | null;
+  timeBanks: { top: number; bottom: number }; // ms of reserve time left
+  
   // Showdown state
   oppRevealed: boolean;
   youMucked: boolean;
   
+  // All-in and the betting is over: the rest of the board is being dealt,
+  // a street at a time (GAME_CONFIG.RUNOUT_STREET_SECONDS), and nobody can act
+  runningOut: boolean;
+  
   // Show hand state (for showing after fold)
   canShowTop: boolean;     // Top player can show their hand
   canShowBottom: boolean;  // Bottom player can show their hand
@@ -93,128 +145,36 @@ gameSession: number;
   
   // Hand start stacks for history
   handStartStacks: { top: number; bottom: number };
+  
+  // Style of the AI playing the top seat; null once a person holds it
+  topSeatBot: BotStyle | null;
+  
+  // How many people are watching (see SPECTATOR_JOIN)
+  spectatorCount: number;
+  
+  // Bumped on every broadcast, so receivers can drop stale or out-of-order
+  // states and notice ones they missed
+  stateVersion: number;
+  
+  // Amounts are whole chips. Missing in states saved when they were big blinds.
+  amountUnit: "chips";
 };
 
-// Hand evaluation constants and helpers
-const RANK_TO_VALUE: Record<string, number> = {
-  A: 14, K: 13, Q: 12, J: 11, T: 10,
-  "9": 9, "8": 8, "7": 7, "6": 6, "5": 5, "4": 4, "3": 3, "2": 2,
-};
-
-function compareScore(a: number[], b: number[]) {
-  const len = Math.max(a.length, b.length);
-  for (let i = 0; i < len; i++) {
-    const av = a[i] ?? 0;
-    const bv = b[i] ?? 0;
-    if (av > bv) return 1;
-    if (av < bv) return -1;
-  }
-  return 0;
-}
-
-function getStraightHigh(valuesUniqueDesc: number[]) {
-  const vals = [...valuesUniqueDesc];
-  if (vals[0] === 14) vals.push(1);
-
-  let run = 1;
-  for (let i = 0; i < vals.length - 1; i++) {
-    if (vals[i] - 1 === vals[i + 1]) {
-      run++;
-      if (run >= 5) {
-        const high = vals[i - 3];
-        return high === 1 ? 5 : high;
-      }
-    } else {
-      run = 1;
-    }
-  }
-  return null;
-}
-
-function roundToHundredth(n: number) {
-  return Math.round(n * 100) / 100;
-}
-
-function evaluate7(cards: Card[]) {
-  const values = cards.map((c) => RANK_TO_VALUE[c.rank]).sort((a, b) => b - a);
-
-  const counts = new Map<number, number>();
-  const suits = new Map<string, number[]>();
-
-  for (const c of cards) {
-    const v = RANK_TO_VALUE[c.rank];
-    counts.set(v, (counts.get(v) ?? 0) + 1);
-    const arr = suits.get(c.suit) ?? [];
-    arr.push(v);
-    suits.set(c.suit, arr);
-  }
-
-  const groups = Array.from(counts.entries())
-    .map(([v, cnt]) => ({ v, cnt }))
-    .sort((a, b) => (b.cnt !== a.cnt ? b.cnt - a.cnt : b.v - a.v));
-
-  let flushSuit: string | null = null;
-  let flushValsDesc: number[] = [];
-  for (const [s, vals] of suits.entries()) {
-    if (vals.length >= 5) {
-      const sorted = vals.slice().sort((a, b) => b - a);
-      if (!flushSuit || compareScore(sorted, flushValsDesc) > 0) {
-        flushSuit = s;
-        flushValsDesc = sorted;
-      }
-    }
-  }
-
-  const uniqueDesc = Array.from(new Set(values)).sort((a, b) => b - a);
-  const straightHigh = getStraightHigh(uniqueDesc);
-
-  if (flushSuit) {
-    const fvUnique = Array.from(new Set(flushValsDesc)).sort((a, b) => b - a);
-    const sfHigh = getStraightHigh(fvUnique);
-    if (sfHigh !== null) return [8, sfHigh];
-  }
-
-  if (groups[0]?.cnt === 4) {
-    const quad = groups[0].v;
-    const kicker = uniqueDesc.find((v) => v !== quad) ?? 0;
-    return [7, quad, kicker];
-  }
+// How long the AI takes over each decision
+const BOT_THINK_MS = 1000;
 
-  if (groups[0]?.cnt === 3) {
-    const trips = groups[0].v;
-    const pairCandidate = groups.find((g) => g.v !== trips && g.cnt >= 2);
-    if (pairCandidate) return [6, trips, pairCandidate.v];
-  }
-
-  if (flushSuit) return [5, ...flushValsDesc.slice(0, 5)];
-
-  if (straightHigh !== null) return [4, straightHigh];
-
-  if (groups[0]?.cnt === 3) {
-    const trips = groups[0].v;
-    const kickers = uniqueDesc.filter((v) => v !== trips).slice(0, 2);
-    return [3, trips, ...kickers];
-  }
+// Send the joiner a full state at least every this many broadcasts
+const KEYFRAME_INTERVAL = 20;
 
-  if (groups[0]?.cnt === 2) {
-    const pairs = groups.filter((g) => g.cnt === 2).map((g) => g.v);
-    if (pairs.length >= 2) {
-      const sorted = pairs.sort((a, b) => b - a);
-      const highPair = sorted[0];
-      const lowPair = sorted[1];
-      const kicker = uniqueDesc.find((v) => v !== highPair && v !== lowPair) ?? 0;
-      return [2, highPair, lowPair, kicker];
-    }
-  }
+// How many answered joiner actions to remember for retries
+const HANDLED_ACTIONS_KEPT = 100;
 
-  if (groups[0]?.cnt === 2) {
-    const pair = groups[0].v;
-    const kickers = uniqueDesc.filter((v) => v !== pair).slice(0, 3);
-    return [1, pair, ...kickers];
-  }
-
-  return [0, ...uniqueDesc.slice(0, 5)];
-}
+// What one seat is allowed to see of HostState.
+// Hidden cards (opponent's unshown hole cards, undealt board cards) are null.
+export type HostStateView = Omit<HostState, "cards" | "dealSalts"> & {
+  cards: (Card | null)[] | null;
+  dealSalts: (string | null)[] | null;
+};
 
 export class MultiplayerHost {
   public channel: RealtimeChannel;
@@ -223,24 +183,79 @@ export class MultiplayerHost {
   // Game state
   private state: HostState;
   
-  // Constants
-  private readonly SB = 0.5;
-  private readonly BB = 1;
-  private readonly STARTING_STACK_BB = GAME_CONFIG.STARTING_STACK_BB;
-  private readonly BLINDS_INCREASE_EVERY_N_HANDS = GAME_CONFIG.BLINDS_INCREASE_EVERY_N_HANDS;
+  // Which user holds which seat. Host always holds bottom; top is bound
+  // from game_players (assignSeat) or the first PLAYER_INFO we receive.
+  private seatOwners: { top: string | null; bottom: string };
+  
+  // Settings for this game (kept across Play Again)
+  private settings: GameSettings;
   
   private onStateChange?: () => void;
   private onOpponentQuit?: () => void;
+  
+  // Fires the auto-check/fold when the shot clock runs out
+  private actionClockTimer: ReturnType<typeof setTimeout> | null = null;
+  
+  // Fires the AI's action when it holds the top seat
+  private botTimer: ReturnType<typeof setTimeout> | null = null;
+  
+  // Deals the next street of an all-in runout
+  private runoutTimer: ReturnType<typeof setTimeout> | null = null;
+  
+  // Users watching the game (on the spectator channel), and their delayed
+  // state updates still to send
+  private spectatorChannel: RealtimeChannel | null;
+  private spectators = new Set<string>();
+  private spectatorTimers = new Set<ReturnType<typeof setTimeout>>();
+  
+  // Sent with every state. A host restored from sessionStorage may resume at
+  // a lower stateVersion than receivers last saw; a new epoch tells them so.
+  private readonly epoch = Date.now();
+  
+  // The joiner's view as last broadcast, which the next delta is made against
+  private lastSentView: HostStateView | null = null;
+  private broadcastsSinceKeyframe = 0;
+  
+  // The first version at the current decision point (hand, action, street,
+  // seat to act). An action made against an earlier version is stale.
+  private decisionKey = "";
+  private decisionVersion = 0;
+  
+  // Answer given to each recent joiner action, by action id, so a retry
+  // gets the same answer instead of being applied twice
+  private handledActions = new Map<string, ActionValidation>();
 
-constructor(channel: RealtimeChannel, userId: string, initialDealerOffset: 0 | 1, onStateChange?: () => void, onOpponentQuit?: () => void, savedState?: HostState | null) {
+constructor(channel: RealtimeChannel, userId: string, initialDealerOffset: 0 | 1, onStateChange?: () => void, onOpponentQuit?: () => void, savedState?: HostState | null, settings: GameSettings = DEFAULT_GAME_SETTINGS, spectatorChannel: RealtimeChannel | null = null) {
   this.channel = channel;
+  this.spectatorChannel = spectatorChannel;
   this.userId = userId;
+  this.seatOwners = { top: null, bottom: userId };
+  // A saved state keeps the settings the game started with
+  this.settings = normalizeGameSettings(savedState ? savedState.settings : settings);
   this.onStateChange = onStateChange;
   this.onOpponentQuit = onOpponentQuit;
   
   // Initialize game state - use saved state if provided, otherwise create fresh
   if (savedState) {
     this.state = savedState;
+    // States saved before blind levels existed
+    this.state.blindLevel ??= 0;
+    this.state.gameStartedAt ??= Date.now();
+    this.state.settings = this.settings;
+    this.state.timeBanks ??= this.fullTimeBanks();
+    this.state.topSeatBot ??= null;
+    this.state.stateVersion ??= 0;
+    this.state.runningOut ??= false;
+    // Spectators join again after a host refresh
+    this.state.spectatorCount = 0;
+    // Log entries from before actions carried events can't be shown
+    this.state.actionLog = this.state.actionLog.filter((item) => item.event);
+    // States saved when amounts were big blinds
+    if (this.state.amountUnit !== "chips") this.convertAmountsToChips();
+    this.state.legalActions = computeLegalActions(this.state);
+    this.startActionClock();
+    this.scheduleBotAction();
+    if (this.state.runningOut) this.scheduleRunoutStreet();
     console.log('Host restored from saved state, handId:', savedState.handId);
   } else {
     this.state = this.createInitialState(initialDealerOffset);
@@ -248,24 +263,31 @@ constructor(channel: RealtimeChannel, userId: string, initialDealerOffset: 0 | 1
   
   // Listen for actions from joiner
   this.setupActionListener();
+  this.setupSpectatorListener();
 }
   
 private createInitialState(initialDealerOffset: 0 | 1): HostState {
   const initialDealerSeat: Seat = initialDealerOffset === 0 ? "top" : "bottom";
+  const startingStack = this.settings.startingStackBB * CHIPS_PER_BB;
   
   return {
     game: {
-      stacks: { top: this.STARTING_STACK_BB, bottom: this.STARTING_STACK_BB },
+      stacks: { top: startingStack, bottom: startingStack },
       bets: { top: 0, bottom: 0 },
       pot: 0,
     },
     street: 0,
     toAct: initialDealerSeat,
     cards: null,
+    dealCommitment: null,
+    dealSalts: null,
     handId: 0,
     dealerOffset: initialDealerOffset,
     dealerSeat: initialDealerSeat,
     gameSession: 0,
+    settings: this.settings,
+    blindLevel: 0,
+    gameStartedAt: Date.now(),
       actionLog: [],
       actionSequence: 0,
       handResult: {
@@ -276,39 +298,73 @@ private createInitialState(initialDealerOffset: 0 | 1): HostState {
       },
       gameOver: false,
       blindsPosted: false,
-      lastRaiseSize: this.BB,
+      lastRaiseSize: getBlindLevel(0).bb,
       lastAggressor: null,
       actionsThisStreet: 0,
       checked: { top: false, bottom: false },
+      legalActions: null,
+      actionClock: null,
+      timeBanks: this.fullTimeBanks(),
       oppRevealed: false,
       youMucked: false,
+      runningOut: false,
       canShowTop: false,
       canShowBottom: false,
       topShowed: false,
       bottomShowed: false,
-      handStartStacks: { top: this.STARTING_STACK_BB, bottom: this.STARTING_STACK_BB },
+      handStartStacks: { top: startingStack, bottom: startingStack },
+      topSeatBot: null,
+      spectatorCount: this.spectators.size,
+      stateVersion: 0,
+      amountUnit: "chips",
     };
   }
   
   private setupActionListener() {
-    this.channel.on("broadcast", { event: "mp" }, ({ payload }: any) => {
-      if (!payload) return;
-      
-      // Ignore own messages
-      if (payload.sender === this.userId) return;
+    onMpMessage(this.channel, this.userId, this.userId, (payload) => {
+      // Bind the top seat to the first player who introduces themselves
+      if (payload.event === "PLAYER_INFO" && !this.seatOwners.top) {
+        this.assignSeat("top", payload.sender);
+      }
       
       // Handle player actions
-      if (payload.event === "ACTION" && payload.seat && payload.action) {
-        this.processAction(payload.seat as Seat, payload.action as GameAction);
+      if (payload.event === "ACTION") {
+        if (!this.ownsSeat(payload.sender, payload.seat)) {
+          this.reportRejectedAction("ACTION", payload.sender, payload.seat, "You don't own this seat", payload.action, payload.actionId);
+          return;
+        }
+        
+        // A retry of an action we already answered: answer the same again
+        let result = this.handledActions.get(payload.actionId);
+        if (!result) {
+          result = payload.handId !== this.state.handId || payload.stateVersion < this.decisionVersion
+            ? { ok: false, reason: "The game moved on before your action arrived" }
+            : this.processAction(payload.seat, payload.action);
+          this.rememberAction(payload.actionId, result);
+        }
+        
+        if (result.ok) {
+          sendMpMessage(this.channel, this.userId, { event: "ACTION_ACK", target: payload.sender, actionId: payload.actionId })
+            .catch((err) => {
+              console.error("ACTION_ACK send failed:", err);
+            });
+        } else {
+          this.reportRejectedAction("ACTION", payload.sender, payload.seat, result.reason, payload.action, payload.actionId);
+        }
       }
       
       // Handle state requests
-      if (payload.event === "SYNC" && payload.kind === "REQUEST_SNAPSHOT") {
-        this.broadcastFullState();
+      if (payload.event === "SYNC") {
+        this.sendSnapshot();
       }
       
       // Handle show hand action
-      if (payload.event === "SHOW_HAND" && payload.seat) {
+      if (payload.event === "SHOW_HAND") {
+        if (!this.ownsSeat(payload.sender, payload.seat)) {
+          this.reportRejectedAction("SHOW_HAND", payload.sender, payload.seat, "You don't own this seat");
+          return;
+        }
+        
         console.log("Host received SHOW_HAND event");
         console.log("  - Seat:", payload.seat);
         console.log("  - canShowTop:", this.state.canShowTop);
@@ -316,13 +372,13 @@ private createInitialState(initialDealerOffset: 0 | 1): HostState {
         console.log("  - topShowed:", this.state.topShowed);
         console.log("  - bottomShowed:", this.state.bottomShowed);
         
-        this.handleShowHand(payload.seat as Seat);
+        this.handleShowHand(payload.seat);
         
         console.log("After handleShowHand:");
         console.log("  - topShowed:", this.state.topShowed);
         console.log("  - bottomShowed:", this.state.bottomShowed);
         
-        this.broadcastFullState(); // Broadcast updated state back to joiner
+        this.broadcastState(); // Broadcast updated state back to joiner
         
         // Notify host to update its display
         if (this.onStateChange) {
@@ -333,6 +389,7 @@ private createInitialState(initialDealerOffset: 0 | 1): HostState {
       // Handle joiner quit
       if (payload.event === "PLAYER_QUIT") {
         console.log("Host received PLAYER_QUIT from joiner");
+        this.sendSpectatorsQuit();
         if (this.onOpponentQuit) {
           this.onOpponentQuit();
         }
@@ -340,6 +397,136 @@ private createInitialState(initialDealerOffset: 0 | 1): HostState {
     });
   }
   
+  private setupSpectatorListener() {
+    if (!this.spectatorChannel) return;
+    
+    onMpMessage(this.spectatorChannel, this.userId, this.userId, (payload) => {
+      // Spectators come and go; neither player can be one. A spectator that
+      // hasn't heard from us in a while joins again: just send it the state.
+      if (payload.event === "SPECTATOR_JOIN") {
+        if (payload.sender === this.seatOwners.top) return;
+        if (this.spectators.has(payload.sender)) {
+          this.broadcastSpectatorState();
+          return;
+        }
+        this.spectators.add(payload.sender);
+        this.updateSpectatorCount();
+      }
+      if (payload.event === "SPECTATOR_LEAVE") {
+        if (!this.spectators.delete(payload.sender)) return;
+        this.updateSpectatorCount();
+      }
+    });
+  }
+  
+  /**
+   * Record which user holds a seat (from game_players or PLAYER_INFO)
+   */
+  public assignSeat(seat: Seat, userId: string) {
+    if (this.seatOwners[seat] === userId) return;
+    
+    if (seat === "top" && this.seatOwners.top) {
+      console.warn("Top seat re-bound from", this.seatOwners.top, "to", userId);
+    }
+    this.seatOwners = { ...this.seatOwners, [seat]: userId };
+    console.log("Seat", seat, "bound to user", userId);
+    
+    // A joiner takes the top seat over from the AI, mid-hand if need be
+    if (seat === "top" && this.state.topSeatBot) {
+      this.clearBotTimer();
+      this.state.topSeatBot = null;
+      console.log("Joiner took the top seat over from the AI");
+      this.broadcastState();
+      if (this.onStateChange) {
+        this.onStateChange();
+      }
+    }
+  }
+  
+  /**
+   * Play the top seat with the AI (until a joiner is bound to it)
+   */
+  public seatBot(style: BotStyle) {
+    if (this.seatOwners.top) return;
+    this.state.topSeatBot = style;
+    this.scheduleBotAction();
+    this.broadcastState();
+  }
+  
+  /**
+   * Queue the AI's action when it's the top seat's turn
+   */
+  private scheduleBotAction() {
+    this.clearBotTimer();
+    
+    const style = this.state.topSeatBot;
+    const legal = this.state.legalActions;
+    if (!style || !legal || legal.seat !== "top" || !this.state.cards) return;
+    
+    this.botTimer = setTimeout(() => {
+      this.botTimer = null;
+      const state = this.state;
+      const legalNow = state.legalActions;
+      if (!state.cards || !legalNow || legalNow.seat !== "top") return;
+      
+      const action = decideBotAction({
+        seat: "top",
+        holeCards: [state.cards[0], state.cards[1]],
+        board: state.cards.slice(4, 4 + state.street),
+        street: state.street,
+        game: state.game,
+        legal: legalNow,
+        dealerSeat: state.dealerSeat,
+        bigBlind: getBlindLevel(state.blindLevel).bb,
+        ante: getBlindLevel(state.blindLevel).ante,
+        log: state.actionLog,
+      }, BOT_PROFILES[style]);
+      
+      const result = this.processAction("top", action);
+      if (!result.ok) console.error("AI action failed:", result.reason);
+    }, BOT_THINK_MS);
+  }
+  
+  private clearBotTimer() {
+    if (this.botTimer) {
+      clearTimeout(this.botTimer);
+      this.botTimer = null;
+    }
+  }
+  
+  /**
+   * Whether a remote message from `sender` may act for `seat`
+   */
+  private ownsSeat(sender: string, seat: Seat): boolean {
+    return this.seatOwners[seat] === sender;
+  }
+  
+  /**
+   * Report a remote message that was refused, and tell the sender why
+   */
+  private reportRejectedAction(event: string, sender: string, seat: Seat, reason: string, action?: GameAction, actionId?: string) {
+    console.warn(`Host rejected ${event} from ${sender} for seat ${seat}: ${reason}`);
+    
+    sendMpMessage(this.channel, this.userId, {
+      event: "ACTION_REJECTED",
+      target: sender,
+      seat,
+      action: action ?? null,
+      actionId: actionId ?? null,
+      reason,
+    }).catch((err) => {
+      console.error("ACTION_REJECTED send failed:", err);
+    });
+  }
+  
+  private rememberAction(actionId: string, result: ActionValidation) {
+    this.handledActions.set(actionId, result);
+    if (this.handledActions.size > HANDLED_ACTIONS_KEPT) {
+      const oldest = this.handledActions.keys().next().value;
+      if (oldest !== undefined) this.handledActions.delete(oldest);
+    }
+  }
+  
   /**
    * Start a new hand - called when host enters game or starts next hand
    */
@@ -358,22 +545,25 @@ public startHand() {
       this.state.dealerSeat = this.state.dealerOffset === 0 ? "top" : "bottom";
     }
     
-    // Apply blind level increase (reduce stacks by 25% every N hands from config)
-    // With N=5: happens at handId 5, 10, 15... (Hand #6, #11, #16...)
-    // With N=10: happens at handId 10, 20, 30... (Hand #11, #21, #31...)
-    if (this.state.handId > 0 && this.state.handId % this.BLINDS_INCREASE_EVERY_N_HANDS === 0) {
-      this.state.game.stacks.top = Math.round(this.state.game.stacks.top * 0.75 * 100) / 100;
-      this.state.game.stacks.bottom = Math.round(this.state.game.stacks.bottom * 0.75 * 100) / 100;
-    }
+    // Blind level for this hand, from the schedule in gameConfig
+    // With 5-hand levels: goes up at handId 5, 10, 15... (Hand #6, #11, #16...)
+    this.state.blindLevel = blindLevelIndexAt(
+      this.settings.blindLevelDuration,
+      this.state.handId,
+      Date.now() - this.state.gameStartedAt
+    );
     
-    // Store start stacks for hand history (AFTER blind level adjustment)
+    // Store start stacks for hand history
     this.state.handStartStacks = {
       top: this.state.game.stacks.top,
       bottom: this.state.game.stacks.bottom,
     };
     
-    // Deal cards
+    // Deal cards and commit to them so the joiner can audit the deal afterwards
     this.state.cards = this.dealCards();
+    const { commitment, salts } = commitDeal(this.state.cards);
+    this.state.dealCommitment = commitment;
+    this.state.dealSalts = salts;
     
     // Reset hand state
     this.state.handResult = {
@@ -390,66 +580,78 @@ public startHand() {
     this.state.checked = { top: false, bottom: false };
     this.state.oppRevealed = false;
     this.state.youMucked = false;
+    this.state.runningOut = false;
+    this.clearRunoutTimer();
     this.state.canShowTop = false;
     this.state.canShowBottom = false;
     this.state.topShowed = false;
     this.state.bottomShowed = false;
-    this.state.lastRaiseSize = this.BB;
+    this.state.lastRaiseSize = getBlindLevel(this.state.blindLevel).bb;
     
     // Post blinds
     this.postBlinds();
+    this.state.legalActions = computeLegalActions(this.state);
+    this.startActionClock();
+    this.scheduleBotAction();
     
     // Broadcast initial state
-    this.broadcastFullState();
+    this.broadcastState();
   }
   
   private dealCards(): Card[] {
-    // Simple card dealing - 9 cards total (2 for each player + 5 board)
-    const ranks = ["A", "K", "Q", "J", "T", "9", "8", "7", "6", "5", "4", "3", "2"];
-    const suits = ["♠", "♥", "♦", "♣"];
-    
-    const deck: Card[] = [];
-    for (const rank of ranks) {
-      for (const suit of suits) {
-        deck.push({ rank, suit });
-      }
-    }
-    
-    // Shuffle and take 9 cards
-    const shuffled = deck.sort(() => Math.random() - 0.5);
-    return shuffled.slice(0, 9);
+    // 9 cards total (2 for each player + 5 board) from a CSPRNG Fisher–Yates shuffle
+    return shuffleDeck(createDeck()).slice(0, 9);
   }
   
   private postBlinds() {
     const dealerSeat = this.state.dealerOffset === 0 ? "top" : "bottom";
     const nonDealerSeat = dealerSeat === "top" ? "bottom" : "top";
     
+    const level = getBlindLevel(this.state.blindLevel);
+    
+    // Antes go straight into the pot - cap at available stack if short
+    const antes = {
+      [dealerSeat]: Math.min(level.ante, this.state.game.stacks[dealerSeat]),
+      [nonDealerSeat]: Math.min(level.ante, this.state.game.stacks[nonDealerSeat]),
+    } as Record<Seat, number>;
+    this.state.game.stacks[dealerSeat] -= antes[dealerSeat];
+    this.state.game.stacks[nonDealerSeat] -= antes[nonDealerSeat];
+    this.state.game.pot = antes[dealerSeat] + antes[nonDealerSeat];
+    
     // Post blinds - cap at available stack if short
-    const actualSB = Math.min(this.SB, this.state.game.stacks[dealerSeat]);
-    const actualBB = Math.min(this.BB, this.state.game.stacks[nonDealerSeat]);
+    const actualSB = Math.min(level.sb, this.state.game.stacks[dealerSeat]);
+    const actualBB = Math.min(level.bb, this.state.game.stacks[nonDealerSeat]);
     
-    this.state.game.bets[dealerSeat] = roundToHundredth(actualSB);
-    this.state.game.bets[nonDealerSeat] = roundToHundredth(actualBB);
-    this.state.game.stacks[dealerSeat] = roundToHundredth(this.state.game.stacks[dealerSeat] - actualSB);
-    this.state.game.stacks[nonDealerSeat] = roundToHundredth(this.state.game.stacks[nonDealerSeat] - actualBB);
+    this.state.game.bets[dealerSeat] = actualSB;
+    this.state.game.bets[nonDealerSeat] = actualBB;
+    this.state.game.stacks[dealerSeat] -= actualSB;
+    this.state.game.stacks[nonDealerSeat] -= actualBB;
     
     // Dealer acts first preflop
     this.state.toAct = dealerSeat;
     
-    // Log blinds
-    this.logAction(dealerSeat, `Posts SB ${actualSB}bb`);
-    this.logAction(nonDealerSeat, `Posts BB ${actualBB}bb`);
+    // Log antes and blinds, each with the pot as it stood after it
+    let potAfter = 0;
+    for (const seat of [dealerSeat, nonDealerSeat] as Seat[]) {
+      if (antes[seat] <= 0) continue;
+      potAfter += antes[seat];
+      this.logAction(seat, { kind: "ante", amount: antes[seat] }, potAfter);
+    }
+    this.logAction(dealerSeat, { kind: "smallBlind", amount: actualSB }, potAfter + actualSB);
+    this.logAction(nonDealerSeat, { kind: "bigBlind", amount: actualBB });
     
     this.state.blindsPosted = true;
   }
   
   /**
-   * Process an action from either player
+   * Process an action from either player.
+   * Illegal actions are not applied; the result says why.
    */
-  public processAction(seat: Seat, action: GameAction) {
-    // Validate it's this seat's turn
-    if (this.state.toAct !== seat) return;
-    if (this.state.handResult.status !== "playing") return;
+  public processAction(seat: Seat, action: GameAction): ActionValidation {
+    const validation = validateAction(this.state, seat, action);
+    if (!validation.ok) return validation;
+    
+    this.stopActionClock(seat);
     
     // Process the action
     switch (action.type) {
@@ -467,19 +669,113 @@ public startHand() {
         break;
     }
     
+    this.state.legalActions = computeLegalActions(this.state);
+    this.startActionClock();
+    this.scheduleBotAction();
+    
     // Broadcast updated state
-this.broadcastFullState();
+this.broadcastState();
 
 // Notify host to update its display
 if (this.onStateChange) {
   this.onStateChange();
 }
+
+    return validation;
+  }
+  
+  /**
+   * Convert a restored state saved when stacks, bets and logged amounts were
+   * (fractional) big blinds to whole chips
+   */
+  private convertAmountsToChips() {
+    const s = this.state;
+    const seats: Seat[] = ["top", "bottom"];
+    for (const seat of seats) {
+      s.game.stacks[seat] = bbToChips(s.game.stacks[seat]);
+      s.game.bets[seat] = bbToChips(s.game.bets[seat]);
+      s.handStartStacks[seat] = bbToChips(s.handStartStacks[seat]);
+    }
+    // Rounding each amount could make or lose a chip: the pot takes the difference
+    const inPlay = seats.reduce((sum, seat) => sum + s.game.stacks[seat] + s.game.bets[seat], 0);
+    s.game.pot = Math.max(0, 2 * this.settings.startingStackBB * CHIPS_PER_BB - inPlay);
+    s.lastRaiseSize = bbToChips(s.lastRaiseSize);
+    s.actionLog = s.actionLog.map((item) => ({
+      ...item,
+      event: {
+        ...item.event,
+        potAfter: bbToChips(item.event.potAfter),
+        ...(item.event.amount !== undefined ? { amount: bbToChips(item.event.amount) } : {}),
+      },
+    }));
+    s.amountUnit = "chips";
+    console.log("Host converted saved state from big blinds to chips");
+  }
+  
+  private fullTimeBanks() {
+    const ms = GAME_CONFIG.TIME_BANK_SECONDS * 1000;
+    return { top: ms, bottom: ms };
+  }
+  
+  /**
+   * Start the shot clock for the seat to act (clears it when the timer is off
+   * or nobody is to act)
+   */
+  private startActionClock() {
+    this.clearActionClockTimer();
+    
+    const legal = this.state.legalActions;
+    if (!legal || this.settings.actionTimerSeconds <= 0) {
+      this.state.actionClock = null;
+      return;
+    }
+    
+    const now = Date.now();
+    const decisionDeadline = now + this.settings.actionTimerSeconds * 1000;
+    const deadline = decisionDeadline + this.state.timeBanks[legal.seat];
+    this.state.actionClock = { seat: legal.seat, decisionDeadline, deadline };
+    this.actionClockTimer = setTimeout(() => this.handleActionTimeout(), deadline - now);
+  }
+  
+  /**
+   * Stop the clock when `seat` acts, charging any time bank it used
+   */
+  private stopActionClock(seat: Seat) {
+    this.clearActionClockTimer();
+    
+    const clock = this.state.actionClock;
+    if (clock && clock.seat === seat) {
+      const bankUsed = Math.max(0, Date.now() - clock.decisionDeadline);
+      this.state.timeBanks[seat] = Math.max(0, this.state.timeBanks[seat] - bankUsed);
+    }
+    this.state.actionClock = null;
+  }
+  
+  private clearActionClockTimer() {
+    if (this.actionClockTimer) {
+      clearTimeout(this.actionClockTimer);
+      this.actionClockTimer = null;
+    }
+  }
+  
+  /**
+   * Out of time: check if that's free, otherwise fold
+   */
+  private handleActionTimeout() {
+    this.actionClockTimer = null;
+    
+    const legal = this.state.legalActions;
+    if (!legal) return;
+    
+    this.logAction(legal.seat, { kind: "timeout" });
+    const result = this.processAction(legal.seat, legal.canCheck ? { type: "CHECK" } : { type: "FOLD" });
+    if (!result.ok) console.error("Auto-action failed:", result.reason);
   }
   
   private handleFold(seat: Seat) {
     const winner = seat === "top" ? "bottom" : "top";
     
-    this.logAction(seat, "Folds");
+    this.logAction(seat, { kind: "fold" });
     
     const potSize = this.state.game.pot + this.state.game.bets.top + this.state.game.bets.bottom;
     
@@ -495,7 +791,7 @@ if (this.onStateChange) {
     this.state.game.pot = 0;
     this.state.game.bets = { top: 0, bottom: 0 };
     
-    this.logAction(winner, `Wins ${potSize}bb`);
+    this.logAction(winner, { kind: "win", amount: potSize });
     
     // After a fold, both players can optionally show their hand
     this.state.canShowTop = true;
@@ -510,7 +806,7 @@ if (this.onStateChange) {
   }
   
   private handleCheck(seat: Seat) {
-    this.logAction(seat, "Checks");
+    this.logAction(seat, { kind: "check" });
     
     this.state.checked[seat] = true;
     this.state.actionsThisStreet++;
@@ -532,20 +828,20 @@ if (this.onStateChange) {
   
   private handleCall(seat: Seat) {
     const otherSeat = seat === "top" ? "bottom" : "top";
-    const toCall = roundToHundredth(this.state.game.bets[otherSeat] - this.state.game.bets[seat]);
-    const actualCall = roundToHundredth(Math.min(toCall, this.state.game.stacks[seat]));
+    const toCall = this.state.game.bets[otherSeat] - this.state.game.bets[seat];
+    const actualCall = Math.min(toCall, this.state.game.stacks[seat]);
     
-    this.state.game.bets[seat] = roundToHundredth(this.state.game.bets[seat] + actualCall);
-    this.state.game.stacks[seat] = roundToHundredth(this.state.game.stacks[seat] - actualCall);
+    this.state.game.bets[seat] += actualCall;
+    this.state.game.stacks[seat] -= actualCall;
     
     // If caller couldn't fully call (all-in short), refund excess to bettor
     if (actualCall < toCall) {
-      const refund = roundToHundredth(this.state.game.bets[otherSeat] - this.state.game.bets[seat]);
-      this.state.game.bets[otherSeat] = roundToHundredth(this.state.game.bets[otherSeat] - refund);
-      this.state.game.stacks[otherSeat] = roundToHundredth(this.state.game.stacks[otherSeat] + refund);
+      const refund = this.state.game.bets[otherSeat] - this.state.game.bets[seat];
+      this.state.game.bets[otherSeat] -= refund;
+      this.state.game.stacks[otherSeat] += refund;
     }
     
-    this.logAction(seat, `Calls ${actualCall}bb`);
+    this.logAction(seat, { kind: "call", amount: actualCall });
     
     this.state.actionsThisStreet++;
 
@@ -580,18 +876,16 @@ if (this.onStateChange) {
     const cappedAmount = Math.min(amount, maxPossible);
     const betAmount = cappedAmount - currentBet;
     
-    this.state.game.bets[seat] = roundToHundredth(cappedAmount);
-    this.state.game.stacks[seat] = roundToHundredth(this.state.game.stacks[seat] - betAmount);
+    this.state.game.bets[seat] = cappedAmount;
+    this.state.game.stacks[seat] -= betAmount;
     
-    const actionText = otherCurrentBet > currentBet ? `Raises to ${amount}bb` : `Bets ${amount}bb`;
-    this.logAction(seat, actionText);
+    // Any chips already in this street (blinds included) make it a raise
+    this.logAction(seat, { kind: otherCurrentBet > 0 ? "raise" : "bet", amount: cappedAmount });
     
     this.state.lastAggressor = seat;
-    // lastRaiseSize should be the RAISE INCREMENT, not the total bet
-    const isFacing = otherCurrentBet > currentBet;
-    this.state.lastRaiseSize = isFacing 
-      ? cappedAmount - otherCurrentBet 
-      : cappedAmount;
+    // lastRaiseSize should be the RAISE INCREMENT, not the total bet.
+    // An all-in for less than a full raise doesn't lower the min-raise.
+    this.state.lastRaiseSize = Math.max(this.state.lastRaiseSize, cappedAmount - otherCurrentBet);
     this.state.actionsThisStreet++;
     this.state.checked = { top: false, bottom: false };
     
@@ -621,8 +915,7 @@ if (this.onStateChange) {
       : this.state.cards?.slice(2, 4);
     
     if (cards && cards.length === 2) {
-      const cardStr = `${cards[0].rank}${cards[0].suit} ${cards[1].rank}${cards[1].suit}`;
-      this.logAction(seat, `Shows ${cardStr}`);
+      this.logAction(seat, { kind: "show", cards });
     }
   }
 
@@ -631,8 +924,12 @@ if (this.onStateChange) {
     this.state.game.pot += this.state.game.bets.top + this.state.game.bets.bottom;
     this.state.game.bets = { top: 0, bottom: 0 };
     
-    // Check if anyone is all-in
+    // Check if anyone is all-in: nobody can bet any more, so run the board out
     const someoneAllIn = this.state.game.stacks.top <= 0 || this.state.game.stacks.bottom <= 0;
+    if (someoneAllIn && this.state.street < 5) {
+      this.startRunout();
+      return;
+    }
     
     // Advance to next street
     if (this.state.street === 0) {
@@ -647,24 +944,60 @@ if (this.onStateChange) {
       return;
     }
     
-    // If someone is all-in postflop, run it out to river immediately
-    if (someoneAllIn && this.state.street < 5) {
-      this.state.street = 5;
-      this.resolveShowdown();
-      return;
-    }
-    
     // Reset street state
     this.state.checked = { top: false, bottom: false };
     this.state.lastAggressor = null;
     this.state.actionsThisStreet = 0;
-    this.state.lastRaiseSize = this.BB; // Reset to BB for new street
+    this.state.lastRaiseSize = getBlindLevel(this.state.blindLevel).bb; // Reset to BB for new street
     
     // Non-dealer acts first postflop
     const dealerSeat = this.state.dealerOffset === 0 ? "top" : "bottom";
     this.state.toAct = dealerSeat === "top" ? "bottom" : "top";
   }
   
+  /**
+   * Turn both hands face up and deal the rest of the board a street at a
+   * time, then show down
+   */
+  private startRunout() {
+    this.state.runningOut = true;
+    this.state.oppRevealed = true;
+    this.scheduleRunoutStreet();
+  }
+  
+  private scheduleRunoutStreet() {
+    this.clearRunoutTimer();
+    this.runoutTimer = setTimeout(() => {
+      this.runoutTimer = null;
+      this.dealRunoutStreet();
+    }, GAME_CONFIG.RUNOUT_STREET_SECONDS * 1000);
+  }
+  
+  private dealRunoutStreet() {
+    const street = this.state.street;
+    this.state.street = street === 0 ? 3 : street === 3 ? 4 : 5;
+    
+    if (this.state.street === 5) {
+      this.state.runningOut = false;
+      this.resolveShowdown();
+    } else {
+      this.scheduleRunoutStreet();
+    }
+    this.state.legalActions = computeLegalActions(this.state);
+    
+    this.broadcastState();
+    if (this.onStateChange) {
+      this.onStateChange();
+    }
+  }
+  
+  private clearRunoutTimer() {
+    if (this.runoutTimer) {
+      clearTimeout(this.runoutTimer);
+      this.runoutTimer = null;
+    }
+  }
+  
   private resolveShowdown() {
     // Evaluate both hands
     const board = (this.state.cards?.slice(4, 9) || []).slice(0, this.state.street);
@@ -733,44 +1066,35 @@ if (this.onStateChange) {
     this.state.bottomShowed = false;
     
     // Log both players showing their cards at showdown
-    const topCardStr = topCards.length === 2 
-      ? `${topCards[0].rank}${topCards[0].suit} ${topCards[1].rank}${topCards[1].suit}`
-      : "";
-    const bottomCardStr = bottomCards.length === 2
-      ? `${bottomCards[0].rank}${bottomCards[0].suit} ${bottomCards[1].rank}${bottomCards[1].suit}`
-      : "";
+    const holeCards = { top: topCards, bottom: bottomCards };
     
     // First player always shows
-    if (firstToShow === "top" && topCardStr) {
-      this.logAction("top", `Shows ${topCardStr}`);
-    } else if (firstToShow === "bottom" && bottomCardStr) {
-      this.logAction("bottom", `Shows ${bottomCardStr}`);
+    if (holeCards[firstToShow].length === 2) {
+      this.logAction(firstToShow, { kind: "show", cards: holeCards[firstToShow] });
     }
     
     // Second player shows only if they win or tie
     if (secondShows) {
-      if (secondToShow === "top" && topCardStr) {
-        this.logAction("top", `Shows ${topCardStr}`);
-      } else if (secondToShow === "bottom" && bottomCardStr) {
-        this.logAction("bottom", `Shows ${bottomCardStr}`);
+      if (holeCards[secondToShow].length === 2) {
+        this.logAction(secondToShow, { kind: "show", cards: holeCards[secondToShow] });
       }
     } else {
       // Second player mucks
-      this.logAction(secondToShow, "Mucked");
+      this.logAction(secondToShow, { kind: "muck" });
     }
     
     // Award pot
     const potSize = this.state.game.pot + this.state.game.bets.top + this.state.game.bets.bottom;
     
     if (winner === "tie") {
-      const half = potSize / 2;
-      this.state.game.stacks.top += half;
-      this.state.game.stacks.bottom += half;
-      this.logAction("top", `Split pot ${half}bb (Showdown)`);
-      this.logAction("bottom", `Split pot ${half}bb (Showdown)`);
+      const shares = splitPot(potSize, this.state.dealerSeat);
+      this.state.game.stacks.top += shares.top;
+      this.state.game.stacks.bottom += shares.bottom;
+      this.logAction("top", { kind: "split", amount: shares.top, showdown: true }, shares.bottom);
+      this.logAction("bottom", { kind: "split", amount: shares.bottom, showdown: true }, 0);
     } else {
       this.state.game.stacks[winner] += potSize;
-      this.logAction(winner, `Wins ${potSize}bb (Showdown)`);
+      this.logAction(winner, { kind: "win", amount: potSize, showdown: true }, 0);
     }
     
     this.state.game.pot = 0;
@@ -782,13 +1106,22 @@ if (this.onStateChange) {
     }
   }
   
-  private logAction(seat: Seat, text: string) {
+  /**
+   * Log an action. Call after applying it: the pot defaults to what's in the
+   * middle now, and putting in chips flags all-in when the stack is empty.
+   */
+  private logAction(
+    seat: Seat,
+    event: Omit<ActionEvent, "potAfter">,
+    potAfter = this.state.game.pot + this.state.game.bets.top + this.state.game.bets.bottom
+  ) {
+    const putsInChips = ["ante", "smallBlind", "bigBlind", "call", "bet", "raise"].includes(event.kind);
     this.state.actionLog.push({
       id: `${Date.now()}-${this.state.actionSequence}`,
       sequence: this.state.actionSequence++,
       street: this.getStreetName(this.state.street),
       seat,
-      text,
+      event: { ...event, potAfter, ...(putsInChips && this.state.game.stacks[seat] <= 0 ? { allIn: true } : {}) },
     });
   }
   
@@ -800,30 +1133,181 @@ if (this.onStateChange) {
   }
   
   /**
-   * Broadcast the complete game state to joiner
+   * Whether the hole cards of `owner` can be seen from `viewer`'s seat.
+   * A spectator sees the same as the other seat would.
    */
-  private broadcastFullState() {
-    this.channel.send({
-      type: "broadcast",
-      event: "mp",
-      payload: {
-        event: "HOST_STATE",
-        sender: this.userId,
-        state: this.state,
-      },
+  private isHoleCardsVisible(owner: Seat, viewer: Viewer): boolean {
+    if (owner === viewer) return true;
+    
+    // Voluntarily shown via Show Hand
+    if (owner === "top" && this.state.topShowed) return true;
+    if (owner === "bottom" && this.state.bottomShowed) return true;
+    
+    // All-in: both hands are turned face up for the runout
+    if (this.state.handResult.status === "playing") return this.state.oppRevealed;
+    
+    // Showdown: oppRevealed = top showed, youMucked = bottom mucked
+    if (this.state.handResult.reason === "showdown") {
+      return owner === "top" ? this.state.oppRevealed : !this.state.youMucked;
+    }
+    
+    return false;
+  }
+  
+  /**
+   * Build the redacted view of the current state for one seat (or a spectator).
+   * Opponent hole cards stay hidden until shown, board cards until dealt.
+   */
+  public getStateFor(viewer: Viewer): HostStateView {
+    const cards = this.state.cards;
+    let visibleCards: (Card | null)[] | null = null;
+    let revealedSalts: (string | null)[] | null = null;
+    
+    if (cards) {
+      const topVisible = this.isHoleCardsVisible("top", viewer);
+      const bottomVisible = this.isHoleCardsVisible("bottom", viewer);
+      
+      // [0,1] = top hole cards, [2,3] = bottom hole cards, [4..8] = board
+      visibleCards = cards.map((card, i) => {
+        if (i < 2) return topVisible ? card : null;
+        if (i < 4) return bottomVisible ? card : null;
+        return i - 4 < this.state.street ? card : null;
+      });
+      
+      // Reveal salts only after the hand, and only for cards this seat can see
+      if (this.state.handResult.status === "ended" && this.state.dealSalts) {
+        const salts = this.state.dealSalts;
+        revealedSalts = visibleCards.map((card, i) => (card ? salts[i] : null));
+      }
+    }
+    
+    // Deep copy so callers can't mutate host state
+    return JSON.parse(JSON.stringify({ ...this.state, cards: visibleCards, dealSalts: revealedSalts }));
+  }
+  
+  /**
+   * Broadcast the joiner's redacted view of the game state: what changed
+   * since the last version, with a full keyframe every KEYFRAME_INTERVAL
+   * broadcasts or whenever the delta wouldn't be smaller.
+   * Spectators get their (delayed) view in full.
+   */
+  private broadcastState() {
+    const base = this.lastSentView;
+    this.state.stateVersion++;
+    this.broadcastSpectatorState();
+    
+    const { handId, actionSequence, street, toAct, handResult } = this.state;
+    const decisionKey = `${handId}:${actionSequence}:${street}:${toAct}:${handResult.status}`;
+    if (decisionKey !== this.decisionKey) {
+      this.decisionKey = decisionKey;
+      this.decisionVersion = this.state.stateVersion;
+    }
+    
+    const view = this.getStateFor("top");
+    this.lastSentView = view;
+    if (!base || ++this.broadcastsSinceKeyframe >= KEYFRAME_INTERVAL) {
+      this.sendSnapshot(view);
+      return;
+    }
+    
+    const delta = diffState(base, view);
+    if (JSON.stringify(delta).length >= JSON.stringify(view).length) {
+      this.sendSnapshot(view);
+      return;
+    }
+    
+    sendMpMessage(this.channel, this.userId, {
+      event: "HOST_STATE_DELTA",
+      epoch: this.epoch,
+      baseVersion: base.stateVersion,
+      version: view.stateVersion,
+      delta,
     }).then(() => {
-      console.log("Broadcast: HOST_STATE");
+      console.log("Broadcast: HOST_STATE_DELTA v" + view.stateVersion);
     }).catch((err) => {
       console.error("Broadcast failed:", err);
     });
   }
   
+  /**
+   * Send the joiner's full view at the current version: a keyframe,
+   * or the answer to REQUEST_SNAPSHOT (the view as broadcast, so later
+   * deltas still fit it)
+   */
+  private sendSnapshot(state: HostStateView = this.lastSentView ?? this.getStateFor("top")) {
+    this.broadcastsSinceKeyframe = 0;
+    sendMpMessage(this.channel, this.userId, {
+      event: "HOST_STATE",
+      epoch: this.epoch,
+      state,
+    }).then(() => {
+      console.log("Broadcast: HOST_STATE v" + state.stateVersion);
+    }).catch((err) => {
+      console.error("Broadcast failed:", err);
+    });
+  }
+  
+  /**
+   * Send the spectators' view, held back by the game's spectator delay.
+   * The shot clock is left out of delayed views: its deadlines have passed
+   * by the time they arrive.
+   */
+  private broadcastSpectatorState() {
+    const channel = this.spectatorChannel;
+    if (!channel || this.spectators.size === 0) return;
+    
+    const delayMs = this.settings.spectatorDelaySeconds * 1000;
+    const state = this.getStateFor("spectator");
+    if (delayMs > 0) state.actionClock = null;
+    
+    const send = () => {
+      sendMpMessage(channel, this.userId, {
+        event: "SPECTATOR_STATE",
+        epoch: this.epoch,
+        state,
+      }).catch((err) => {
+        console.error("Spectator broadcast failed:", err);
+      });
+    };
+    
+    if (delayMs === 0) {
+      send();
+      return;
+    }
+    const timer = setTimeout(() => {
+      this.spectatorTimers.delete(timer);
+      send();
+    }, delayMs);
+    this.spectatorTimers.add(timer);
+  }
+  
+  /**
+   * Tell the spectators the game is over (a player left)
+   */
+  private sendSpectatorsQuit() {
+    if (!this.spectatorChannel) return;
+    sendMpMessage(this.spectatorChannel, this.userId, { event: "PLAYER_QUIT" }).catch(() => {
+      // Ignore errors: spectators also stop hearing from us
+    });
+  }
+  
+  /**
+   * Tell both players (and the spectators) how many are watching
+   */
+  private updateSpectatorCount() {
+    this.state.spectatorCount = this.spectators.size;
+    this.broadcastState();
+    if (this.onStateChange) {
+      this.onStateChange();
+    }
+  }
+  
   /**
    * Player chooses to show their hand after winning by fold
    */
   public showHand(seat: Seat) {
     this.handleShowHand(seat);
-    this.broadcastFullState();
+    this.broadcastState();
     
     // Notify host to update its display
     if (this.onStateChange) {
@@ -832,39 +1316,11 @@ if (this.onStateChange) {
   }
 
 /**
-   * Send an action to the host
-   */
-  public sendAction(seat: Seat, action: GameAction) {
-    this.channel.send({
-      type: "broadcast",
-      event: "mp",
-      payload: {
-        event: "ACTION",
-        seat,
-        action,
-        sender: this.userId,
-      },
-    }).then(() => {
-      console.log("Sent action:", action.type);
-    }).catch((err) => {
-      console.error("Action send failed:", err);
-    });
-  }
-  
-  /**
    * Send show hand action to the host
    */
   public sendShowHand(seat: Seat) {
     console.log("Joiner sending SHOW_HAND:", seat);
-    this.channel.send({
-      type: "broadcast",
-      event: "mp",
-      payload: {
-        event: "SHOW_HAND",
-        seat,
-        sender: this.userId,
-      },
-    }).then(() => {
+    sendMpMessage(this.channel, this.userId, { event: "SHOW_HAND", seat }).then(() => {
       console.log("Sent show hand successfully");
     }).catch((err) => {
       console.error("Show hand send failed:", err);
@@ -885,9 +1341,12 @@ if (this.onStateChange) {
     // Randomize new dealer
     const newDealerOffset: 0 | 1 = Math.random() < 0.5 ? 0 : 1;
     
-    // Create fresh state
+    // Create fresh state, keeping the AI in its seat and counting versions on
+    const { topSeatBot, stateVersion } = this.state;
     this.state = this.createInitialState(newDealerOffset);
     this.state.gameSession = (this.state.gameSession || 0) + 1;
+    this.state.topSeatBot = topSeatBot;
+    this.state.stateVersion = stateVersion;
     
     // Start the first hand
     this.startHand();
@@ -899,16 +1358,16 @@ if (this.onStateChange) {
    * Clean up
    */
   public destroy() {
+    this.clearActionClockTimer();
+    this.clearBotTimer();
+    this.clearRunoutTimer();
+    this.spectatorTimers.forEach((timer) => clearTimeout(timer));
+    this.spectatorTimers.clear();
+    
     // Broadcast quit message
-    this.channel.send({
-      type: "broadcast",
-      event: "mp",
-      payload: {
-        event: "PLAYER_QUIT",
-        sender: this.userId,
-      },
-    }).catch(() => {
+    sendMpMessage(this.channel, this.userId, { event: "PLAYER_QUIT" }).catch(() => {
       // Ignore errors on cleanup
     });
+    this.sendSpectatorsQuit();
   }
 }
@@ -2,35 +2,80 @@
  * Multiplayer Joiner Controller
  * 
  * The joiner is a "remote display" that:
- * - Receives complete game state from host
+ * - Receives its redacted view of the game state from host (in full, or as
+ *   deltas against the previous version), dropping stale ones and asking
+ *   for a fresh snapshot when it notices it missed some
  * - Displays the state
- * - Sends player actions to host
+ * - Sends player actions to host, retrying with backoff until the host
+ *   acknowledges or rejects them (or the state moves on)
+ * - Audits the host's deal commitment at the end of each hand (that the cards
+ *   weren't changed mid-hand; the shuffle itself is the host's to choose)
  * - Does NOT compute any game logic
  */
 
 import type { RealtimeChannel } from "@supabase/supabase-js";
-import type { HostState, Seat, GameAction } from "./multiplayerHost";
+import type { HostStateView, Seat, GameAction } from "./multiplayerHost";
+import { verifyDeal } from "./deck";
+import { applyDelta, checkStamp } from "./stateSync";
+import type { StateDelta, StateStamp } from "./stateSync";
+import { isHostStateView, onMpMessage, sendMpMessage } from "./mpProtocol";
+import type { MpMessage } from "./mpProtocol";
+
+// Keep asking for a snapshot this often until one arrives
+const SNAPSHOT_RETRY_MS = 2000;
+
+// Resend an unanswered action after 0.5s, 1s, 2s... then give up
+const ACTION_RETRY_MS = 500;
+const ACTION_MAX_ATTEMPTS = 6;
+
+type PendingAction = {
+  message: Extract<MpMessage, { event: "ACTION" }>;
+  actionSequence: number; // of the state the action was made against
+  attempts: number;
+  timer: ReturnType<typeof setTimeout> | null;
+};
 
 export class MultiplayerJoiner {
   public channel: RealtimeChannel;
   private userId: string;
-  private onStateUpdate: (state: HostState) => void;
+  private hostId: string; // the game's creator; only they send host events
+  private onStateUpdate: (state: HostStateView) => void;
+  
+  // Current state (received from host) and the stamp it came with
+  private state: HostStateView | null = null;
+  private stamp: StateStamp | null = null;
   
-  // Current state (received from host)
-  private state: HostState | null = null;
+  // Re-sends REQUEST_SNAPSHOT until a state arrives
+  private snapshotTimer: ReturnType<typeof setTimeout> | null = null;
 
   private opponentQuit: boolean = false;
   private onOpponentQuit?: () => void;
   
+  // Deal commitment as first seen for the current hand
+  private handCommitment: { key: string; root: string } | null = null;
+  private onDealVerified?: (handId: number, verified: boolean) => void;
+  
+  private onActionRejected?: (reason: string) => void;
+  
+  // The action waiting for the host's answer (one at a time)
+  private pendingAction: PendingAction | null = null;
+  private actionCounter = 0;
+  
   constructor(
     channel: RealtimeChannel,
     userId: string,
-    onStateUpdate: (state: HostState) => void,
-    onOpponentQuit?: () => void
+    hostId: string,
+    onStateUpdate: (state: HostStateView) => void,
+    onOpponentQuit?: () => void,
+    onDealVerified?: (handId: number, verified: boolean) => void,
+    onActionRejected?: (reason: string) => void
   ) {
     this.onOpponentQuit = onOpponentQuit;
+    this.onDealVerified = onDealVerified;
+    this.onActionRejected = onActionRejected;
     this.channel = channel;
     this.userId = userId;
+    this.hostId = hostId;
     this.onStateUpdate = onStateUpdate;
     
     // Listen for state updates from host
@@ -41,21 +86,39 @@ export class MultiplayerJoiner {
   }
   
   private setupStateListener() {
-    this.channel.on("broadcast", { event: "mp" }, ({ payload }: any) => {
-      if (!payload) return;
+    onMpMessage(this.channel, this.userId, this.hostId, (payload) => {
+      // Receive full state from host
+      if (payload.event === "HOST_STATE") {
+        this.receiveState(payload.state, payload.epoch);
+      }
       
-      // Ignore own messages
-      if (payload.sender === this.userId) return;
+      // Receive what changed since the previous version
+      if (payload.event === "HOST_STATE_DELTA") {
+        this.receiveDelta(payload.delta, payload.epoch, payload.baseVersion, payload.version);
+      }
       
-      // Receive full state from host
-      if (payload.event === "HOST_STATE" && payload.state) {
-        this.state = payload.state as HostState;
-        this.onStateUpdate(this.state);
-        console.log("Received HOST_STATE from host");
+      // Host applied one of our actions. It broadcasts the new state before
+      // the ack, so if we're still waiting that state went missing.
+      if (payload.event === "ACTION_ACK" && payload.target === this.userId) {
+        if (this.pendingAction?.message.actionId === payload.actionId) {
+          this.clearPendingAction();
+          this.requestState();
+        }
+      }
+      
+      // Host refused one of our actions
+      if (payload.event === "ACTION_REJECTED" && payload.target === this.userId) {
+        if (payload.actionId && this.pendingAction?.message.actionId === payload.actionId) {
+          this.clearPendingAction();
+        }
+        console.warn("Action rejected by host:", payload.reason);
+        if (this.onActionRejected) {
+          this.onActionRejected(payload.reason);
+        }
       }
       
       // Handle opponent quit
-      if (payload.event === "PLAYER_QUIT") {
+      if (payload.event === "PLAYER_QUIT" && payload.sender === this.hostId) {
         this.opponentQuit = true;
         if (this.onOpponentQuit) {
           this.onOpponentQuit();
@@ -65,44 +128,193 @@ export class MultiplayerJoiner {
   }
   
   /**
-   * Request the current game state from host
+   * Apply a state from the host unless it's older than the one we have.
+   * An unasked-for gap means broadcasts are going missing, so the newest
+   * may be lost too: apply this one and ask for the latest.
+   */
+  private receiveState(state: HostStateView, epoch: number) {
+    const stamp = { epoch, version: state.stateVersion };
+    const check = checkStamp(this.stamp, stamp);
+    
+    // A newer state, or the host's snapshot of the one we have, answers our request
+    const requested = this.snapshotTimer !== null;
+    const current = !!this.stamp && stamp.epoch === this.stamp.epoch && stamp.version === this.stamp.version;
+    if (check !== "stale" || current) this.stopRequestingState();
+    
+    if (check === "stale") {
+      console.log("Dropped stale HOST_STATE v" + stamp.version);
+      return;
+    }
+    if (check === "gap" && !requested && this.stamp) {
+      console.warn(`HOST_STATE gap: v${this.stamp.version} -> v${stamp.version}`);
+      this.requestState();
+    }
+    
+    this.stamp = stamp;
+    this.state = state;
+    this.settlePendingAction(state);
+    this.onStateUpdate(state);
+    console.log("Received HOST_STATE v" + stamp.version);
+    this.checkDeal(state);
+  }
+  
+  /**
+   * Apply a delta if it was made against the state we have and the result
+   * is a valid state; otherwise (missed versions, or a patch that doesn't
+   * fit) get a snapshot
+   */
+  private receiveDelta(delta: StateDelta, epoch: number, baseVersion: number, version: number) {
+    const stamp = { epoch, version };
+    if (checkStamp(this.stamp, stamp) === "stale") {
+      console.log("Dropped stale HOST_STATE_DELTA v" + version);
+      return;
+    }
+    
+    const base = this.stamp;
+    const next =
+      this.state && base && base.epoch === epoch && base.version === baseVersion
+        ? applyDelta(this.state, delta)
+        : null;
+    if (!next || !isHostStateView(next)) {
+      console.warn(`HOST_STATE_DELTA v${baseVersion} -> v${version} doesn't apply, requesting snapshot`);
+      this.requestState();
+      return;
+    }
+    
+    this.stopRequestingState();
+    this.stamp = stamp;
+    this.state = next;
+    this.settlePendingAction(next);
+    this.onStateUpdate(next);
+    console.log("Received HOST_STATE_DELTA v" + version);
+    this.checkDeal(next);
+  }
+  
+  /**
+   * Audit the deal once the host reveals the salts at hand end.
+   * The commitment must still be the one we saw when the hand started.
+   */
+  private checkDeal(state: HostStateView) {
+    if (!state.dealCommitment) return;
+    
+    const key = `${state.gameSession}-${state.handId}`;
+    if (!this.handCommitment || this.handCommitment.key !== key) {
+      this.handCommitment = { key, root: state.dealCommitment.root };
+    }
+    
+    if (state.handResult.status !== "ended" || !state.cards || !state.dealSalts) return;
+    
+    const verified =
+      state.dealCommitment.root === this.handCommitment.root &&
+      verifyDeal(state.dealCommitment, state.cards, state.dealSalts);
+    
+    if (!verified) {
+      console.error("Deal verification FAILED for hand", state.handId);
+    }
+    if (this.onDealVerified) {
+      this.onDealVerified(state.handId, verified);
+    }
+  }
+  
+  /**
+   * Request the current game state from host, again every SNAPSHOT_RETRY_MS
+   * until it answers
    */
   private requestState() {
-    setTimeout(() => {
-      this.channel.send({
-        type: "broadcast",
-        event: "mp",
-        payload: {
-          event: "SYNC",
-          kind: "REQUEST_SNAPSHOT",
-          sender: this.userId,
-        },
-      }).then(() => {
-        console.log("Requested state from host");
-      }).catch((err) => {
-        console.error("Request failed:", err);
-      });
-    }, 300);
+    if (this.snapshotTimer) return; // already asking
+    
+    const ask = (delayMs: number) => {
+      this.snapshotTimer = setTimeout(() => {
+        sendMpMessage(this.channel, this.userId, { event: "SYNC", kind: "REQUEST_SNAPSHOT" }).then(() => {
+          console.log("Requested state from host");
+        }).catch((err) => {
+          console.error("Request failed:", err);
+        });
+        ask(SNAPSHOT_RETRY_MS);
+      }, delayMs);
+    };
+    // Short first delay so the host is listening when we've just joined
+    ask(this.state ? 0 : 300);
+  }
+  
+  private stopRequestingState() {
+    if (this.snapshotTimer) {
+      clearTimeout(this.snapshotTimer);
+      this.snapshotTimer = null;
+    }
   }
   
   /**
-   * Send an action to the host
+   * Send an action to the host, made against the state we're showing
    */
   public sendAction(seat: Seat, action: GameAction) {
-    this.channel.send({
-      type: "broadcast",
-      event: "mp",
-      payload: {
+    if (!this.state || !this.stamp) {
+      console.warn("No state from host yet, action not sent");
+      return;
+    }
+    if (this.pendingAction) {
+      console.warn("Still waiting for the host to answer the previous action");
+      return;
+    }
+    
+    this.pendingAction = {
+      message: {
         event: "ACTION",
         seat,
         action,
-        sender: this.userId,
+        actionId: `${this.userId}-${Date.now().toString(36)}-${++this.actionCounter}`,
+        handId: this.state.handId,
+        stateVersion: this.stamp.version,
       },
-    }).then(() => {
-      console.log("Sent action:", action.type);
+      actionSequence: this.state.actionSequence,
+      attempts: 0,
+      timer: null,
+    };
+    this.trySendAction();
+  }
+  
+  /**
+   * (Re)send the pending action, and schedule the next try
+   */
+  private trySendAction() {
+    const pending = this.pendingAction;
+    if (!pending) return;
+    
+    if (pending.attempts >= ACTION_MAX_ATTEMPTS) {
+      console.warn("No answer from host for action", pending.message.actionId);
+      this.clearPendingAction();
+      if (this.onActionRejected) {
+        this.onActionRejected("No answer from the host - check your connection");
+      }
+      this.requestState();
+      return;
+    }
+    
+    const { action, actionId } = pending.message;
+    pending.attempts++;
+    sendMpMessage(this.channel, this.userId, pending.message).then(() => {
+      console.log("Sent action:", action.type, actionId);
     }).catch((err) => {
       console.error("Action send failed:", err);
     });
+    pending.timer = setTimeout(() => this.trySendAction(), ACTION_RETRY_MS * 2 ** (pending.attempts - 1));
+  }
+  
+  /**
+   * Stop waiting once the state has moved past the one the action was made
+   * against: it was applied, or the host will reject it as stale anyway
+   */
+  private settlePendingAction(state: HostStateView) {
+    const pending = this.pendingAction;
+    if (!pending) return;
+    if (state.handId !== pending.message.handId || state.actionSequence !== pending.actionSequence) {
+      this.clearPendingAction();
+    }
+  }
+  
+  private clearPendingAction() {
+    if (this.pendingAction?.timer) clearTimeout(this.pendingAction.timer);
+    this.pendingAction = null;
   }
   
   /**
@@ -110,15 +322,7 @@ export class MultiplayerJoiner {
    */
   public sendShowHand(seat: Seat) {
     console.log("Joiner sending SHOW_HAND:", seat);
-    this.channel.send({
-      type: "broadcast",
-      event: "mp",
-      payload: {
-        event: "SHOW_HAND",
-        seat,
-        sender: this.userId,
-      },
-    }).then(() => {
+    sendMpMessage(this.channel, this.userId, { event: "SHOW_HAND", seat }).then(() => {
       console.log("Sent show hand successfully");
     }).catch((err) => {
       console.error("Show hand send failed:", err);
@@ -128,7 +332,7 @@ export class MultiplayerJoiner {
   /**
    * Get current state
    */
-  public getState(): HostState | null {
+  public getState(): HostStateView | null {
     return this.state;
   }
   
@@ -136,15 +340,11 @@ export class MultiplayerJoiner {
    * Clean up
    */
   public destroy() {
+    this.stopRequestingState();
+    this.clearPendingAction();
+    
     // Broadcast quit message
-    this.channel.send({
-      type: "broadcast",
-      event: "mp",
-      payload: {
-        event: "PLAYER_QUIT",
-        sender: this.userId,
-      },
-    }).catch(() => {
+    sendMpMessage(this.channel, this.userId, { event: "PLAYER_QUIT" }).catch(() => {
       // Ignore errors on cleanup
     });
   }
@@ -0,0 +1,135 @@
+/**
+ * Multiplayer Spectator Controller
+ *
+ * A spectator watches a PIN game without a seat:
+ * - Announces itself to the host (SPECTATOR_JOIN), which counts it for both players
+ * - Receives the spectator view of the game state: hole cards hidden until
+ *   shown, optionally delayed by the game's spectator delay
+ * - Never sends actions
+ *
+ * Spectators use the game's spectator channel, never the players' game
+ * channel: the joiner's HOST_STATE there carries the joiner's hole cards.
+ * Only the host sends on the spectator channel, and only when someone is
+ * counted as watching, so a spectator that hears nothing for a while joins
+ * again (the host may have restarted and forgotten it).
+ */
+
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import type { HostStateView } from "./multiplayerHost";
+import { checkStamp } from "./stateSync";
+import type { StateStamp } from "./stateSync";
+import { onMpMessage, sendMpMessage } from "./mpProtocol";
+
+// Join again after this long without a state from the host
+const REJOIN_AFTER_MS = 15000;
+
+export class MultiplayerSpectator {
+  public channel: RealtimeChannel;
+  private userId: string;
+  private hostId: string; // the game's creator; only they send on this channel
+  private onStateUpdate: (state: HostStateView) => void;
+
+  // Current state (received from host) and the stamp it came with
+  private state: HostStateView | null = null;
+  private stamp: StateStamp | null = null;
+
+  private onGameEnded?: () => void;
+
+  // Pending join, and the rejoin that fires if the host goes quiet
+  private joinTimer: ReturnType<typeof setTimeout> | null = null;
+  private rejoinTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    channel: RealtimeChannel,
+    userId: string,
+    hostId: string,
+    onStateUpdate: (state: HostStateView) => void,
+    onGameEnded?: () => void
+  ) {
+    this.channel = channel;
+    this.userId = userId;
+    this.hostId = hostId;
+    this.onStateUpdate = onStateUpdate;
+    this.onGameEnded = onGameEnded;
+
+    this.setupStateListener();
+
+    // Tell the host we're watching; it answers with the current state
+    this.join();
+  }
+
+  private setupStateListener() {
+    onMpMessage(this.channel, this.userId, this.hostId, (payload) => {
+      if (payload.event === "SPECTATOR_STATE") {
+        this.receiveState(payload.state, payload.epoch);
+      }
+
+      // Either player leaving ends the game for everyone watching
+      if (payload.event === "PLAYER_QUIT" && payload.sender === this.hostId) {
+        if (this.onGameEnded) {
+          this.onGameEnded();
+        }
+      }
+    });
+  }
+
+  /**
+   * Apply a state from the host unless it's older than the one we have;
+   * after a gap, joining again gets the host to send the latest
+   */
+  private receiveState(state: HostStateView, epoch: number) {
+    const stamp = { epoch, version: state.stateVersion };
+    const check = checkStamp(this.stamp, stamp);
+    if (check === "stale") return;
+
+    this.stamp = stamp;
+    this.state = state;
+    if (check === "gap") {
+      this.join();
+    } else {
+      this.scheduleRejoin();
+    }
+    this.onStateUpdate(state);
+  }
+
+  /**
+   * Ask the host to count us and send its spectator view
+   */
+  private join() {
+    if (this.joinTimer) return;
+    this.joinTimer = setTimeout(() => {
+      this.joinTimer = null;
+      sendMpMessage(this.channel, this.userId, { event: "SPECTATOR_JOIN" }).then(() => {
+        console.log("Joined as spectator");
+      }).catch((err) => {
+        console.error("Spectator join failed:", err);
+      });
+      this.scheduleRejoin();
+    }, 300);
+  }
+
+  private scheduleRejoin() {
+    // Delayed states take that much longer to arrive
+    const delayMs = (this.state?.settings.spectatorDelaySeconds ?? 0) * 1000;
+    if (this.rejoinTimer) clearTimeout(this.rejoinTimer);
+    this.rejoinTimer = setTimeout(() => this.join(), REJOIN_AFTER_MS + delayMs);
+  }
+
+  /**
+   * Get current state
+   */
+  public getState(): HostStateView | null {
+    return this.state;
+  }
+
+  /**
+   * Clean up
+   */
+  public destroy() {
+    if (this.joinTimer) clearTimeout(this.joinTimer);
+    if (this.rejoinTimer) clearTimeout(this.rejoinTimer);
+    sendMpMessage(this.channel, this.userId, { event: "SPECTATOR_LEAVE" }).catch(() => {
+      // Ignore errors on cleanup
+    });
+  }
+}
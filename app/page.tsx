@@ -1,13 +1,35 @@
 "use client";
 
 import { useEffect, useMemo, useState, useRef } from "react";
-import { GAME_CONFIG, BASE_SB, BASE_BB } from './gameConfig';
+import { GAME_CONFIG, DEFAULT_GAME_SETTINGS, GAME_SETTING_CHOICES, normalizeGameSettings, describeGameSettings } from './gameConfig';
+import type { GameSettings } from './gameConfig';
+import { blindLevelIndexAt, getBlindLevel, getBlindNotice } from "./blinds";
+import { CHIPS_PER_BB, bbToChips, chipsToBB, formatBB, splitPot } from "./chips";
 import type { User } from "@supabase/supabase-js";
 import { supabase } from "@/lib/supabaseClient";
 
 import { MultiplayerHost } from "./multiplayerHost";
 import { MultiplayerJoiner } from "./multiplayerJoiner";
-import type { HostState, GameAction } from "./multiplayerHost";
+import { MultiplayerSpectator } from "./multiplayerSpectator";
+import { MAX_NAME_LENGTH, onMpMessage, sendMpMessage } from "./mpProtocol";
+import { createDeck, shuffleDeck } from "./deck";
+import { compareScore, evaluate7 } from "./handEvaluator";
+import { computeLegalActions } from "./bettingRules";
+import { BOT_PROFILES, BOT_STYLES, botName, decideBotAction } from "./pokerBot";
+import type { BotStyle } from "./pokerBot";
+import { PUSH_FOLD_MAX_BB, effectiveStackBB, pushFoldAdvice } from "./pushFold";
+import type { LegalActions } from "./bettingRules";
+import type { HostState, HostStateView, GameAction, ActionClock } from "./multiplayerHost";
+import { describeAction, isBettingAction } from "./actionLog";
+import type { ActionEvent } from "./actionLog";
+import { formatHandHistory, formatSessionHistory, heroSeatOf, parseHandHistories, replayFrames } from "./handHistory";
+import type { HandLogSnapshot } from "./handHistory";
+import { loadGameHands, loadLifetimeHands, loadPastGames, saveHand } from "./handStore";
+import type { PastGame } from "./handStore";
+import { computePlayerStats, statRows } from "./stats";
+import type { PlayerStats } from "./stats";
+import { allInRunoutStreet, formatEquity } from "./equity";
+import type { EquityRequest, EquityResponse, StreetEquity } from "./equity";
 
 export const dynamic = 'force-dynamic';  // ← THIS LINE
 
@@ -23,6 +45,8 @@ type Screen =
   | "professionalDashboard"
   | "editProfile"
   | "connections"
+  | "replayer"
+  | "pastGames"
   | "game";
 
 type Seat = "top" | "bottom";
@@ -56,34 +80,7 @@ type ActionLogItem = {
   sequence: number;
   street: StreetName;
   seat: Seat;
-  text: string;
-};
-
-type HandLogSnapshot = {
-  handNo: number;
-  dealer: Seat;
-  endedStreet: Street;
-  endedBoard: Card[];
-  log: ActionLogItem[];
-
-  heroPos: "SB" | "BB";
-  oppPos: "SB" | "BB";
-
-  heroCards: [Card, Card];
-  oppCards: [Card, Card];
-
-  // true only if player actually showed / was required to show
-  heroShown: boolean;
-  oppShown: boolean;
-
-  heroStartStack: number;
-  oppStartStack: number;
-  
-  // Best 5-card hands
-  heroBest5?: Card[];
-  oppBest5?: Card[];
-  heroHandDesc?: string;
-  oppHandDesc?: string;
+  event: ActionEvent;
 };
 
 type AuthoritativeState = {
@@ -106,6 +103,7 @@ type AuthoritativeState = {
   showdownFirst: Seat | null;
   oppRevealed: boolean;
   youMucked: boolean;
+  runningOut: boolean; // all-in: the rest of the board is being dealt a street at a time
   streetBettor: Seat | null;
   canShowTop: boolean;
   canShowBottom: boolean;
@@ -115,35 +113,14 @@ type AuthoritativeState = {
 
 /* ---------- constants ---------- */
 
-const RANKS = ["A", "K", "Q", "J", "T", "9", "8", "7", "6", "5", "4", "3", "2"];
-const SUITS = ["♠", "♥", "♦", "♣"];
-
 // Game configuration imported from shared gameConfig.ts file
 // To change game settings, edit gameConfig.ts
-const STARTING_STACK_BB = GAME_CONFIG.STARTING_STACK_BB;
+const STARTING_STACK = GAME_CONFIG.STARTING_STACK_BB * CHIPS_PER_BB;
 
 /* ---------- helpers ---------- */
 
 function drawUniqueCards(count: number): Card[] {
-  const deck: Card[] = [];
-  for (const suit of SUITS) for (const rank of RANKS) deck.push({ rank, suit });
-
-  for (let i = deck.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [deck[i], deck[j]] = [deck[j], deck[i]];
-  }
-
-  return deck.slice(0, count);
-}
-
-function roundToHundredth(n: number) {
-  return Math.round(n * 100) / 100;
-}
-
-function formatBB(value: number | "") {
-  if (value === "") return "";
-  if (Number.isInteger(value)) return value.toString();
-  return value.toFixed(2).replace(/0+$/, "").replace(/\.$/, "");
+  return shuffleDeck(createDeck()).slice(0, count);
 }
 
 function clamp(n: number, lo: number, hi: number) {
@@ -161,7 +138,7 @@ function uid() {
   return Math.random().toString(16).slice(2) + "-" + Date.now().toString(16);
 }
 
-/* ---------- simple poker evaluator (7-card) ---------- */
+/* ---------- card ranks and hand names ---------- */
 
 const RANK_TO_VALUE: Record<string, number> = {
   A: 14,
@@ -179,127 +156,6 @@ const RANK_TO_VALUE: Record<string, number> = {
   "2": 2,
 };
 
-function compareScore(a: number[], b: number[]) {
-  const len = Math.max(a.length, b.length);
-  for (let i = 0; i < len; i++) {
-    const av = a[i] ?? 0;
-    const bv = b[i] ?? 0;
-    if (av > bv) return 1;
-    if (av < bv) return -1;
-  }
-  return 0;
-}
-
-function getStraightHigh(valuesUniqueDesc: number[]) {
-  const vals = [...valuesUniqueDesc];
-  if (vals[0] === 14) vals.push(1); // wheel
-
-  let run = 1;
-  for (let i = 0; i < vals.length - 1; i++) {
-    if (vals[i] - 1 === vals[i + 1]) {
-      run++;
-      if (run >= 5) {
-        const high = vals[i - 3];
-        return high === 1 ? 5 : high;
-      }
-    } else {
-      run = 1;
-    }
-  }
-  return null;
-}
-
-function evaluate7(cards: Card[]) {
-  const values = cards.map((c) => RANK_TO_VALUE[c.rank]).sort((a, b) => b - a);
-
-  const counts = new Map<number, number>();
-  const suits = new Map<string, number[]>();
-
-  for (const c of cards) {
-    const v = RANK_TO_VALUE[c.rank];
-    counts.set(v, (counts.get(v) ?? 0) + 1);
-    const arr = suits.get(c.suit) ?? [];
-    arr.push(v);
-    suits.set(c.suit, arr);
-  }
-
-  const groups = Array.from(counts.entries())
-    .map(([v, cnt]) => ({ v, cnt }))
-    .sort((a, b) => (b.cnt !== a.cnt ? b.cnt - a.cnt : b.v - a.v));
-
-  // Flush?
-  let flushSuit: string | null = null;
-  let flushValsDesc: number[] = [];
-  for (const [s, vals] of suits.entries()) {
-    if (vals.length >= 5) {
-      const sorted = vals.slice().sort((a, b) => b - a);
-      if (!flushSuit || compareScore(sorted, flushValsDesc) > 0) {
-        flushSuit = s;
-        flushValsDesc = sorted;
-      }
-    }
-  }
-
-  const uniqueDesc = Array.from(new Set(values)).sort((a, b) => b - a);
-  const straightHigh = getStraightHigh(uniqueDesc);
-
-  // Straight flush
-  if (flushSuit) {
-    const fvUnique = Array.from(new Set(flushValsDesc)).sort((a, b) => b - a);
-    const sfHigh = getStraightHigh(fvUnique);
-    if (sfHigh !== null) return [8, sfHigh];
-  }
-
-  // Quads
-  if (groups[0]?.cnt === 4) {
-    const quad = groups[0].v;
-    const kicker = uniqueDesc.find((v) => v !== quad) ?? 0;
-    return [7, quad, kicker];
-  }
-
-  // Full house
-  if (groups[0]?.cnt === 3) {
-    const trips = groups[0].v;
-    const pairCandidate = groups.find((g) => g.v !== trips && g.cnt >= 2);
-    if (pairCandidate) return [6, trips, pairCandidate.v];
-  }
-
-  // Flush
-  if (flushSuit) return [5, ...flushValsDesc.slice(0, 5)];
-
-  // Straight
-  if (straightHigh !== null) return [4, straightHigh];
-
-  // Trips
-  if (groups[0]?.cnt === 3) {
-    const trips = groups[0].v;
-    const kickers = uniqueDesc.filter((v) => v !== trips).slice(0, 2);
-    return [3, trips, ...kickers];
-  }
-
-  // Two pair
-  if (groups[0]?.cnt === 2) {
-    const pairs = groups.filter((g) => g.cnt === 2).map((g) => g.v);
-    if (pairs.length >= 2) {
-      const sorted = pairs.sort((a, b) => b - a);
-      const highPair = sorted[0];
-      const lowPair = sorted[1];
-      const kicker = uniqueDesc.find((v) => v !== highPair && v !== lowPair) ?? 0;
-      return [2, highPair, lowPair, kicker];
-    }
-  }
-
-  // One pair
-  if (groups[0]?.cnt === 2) {
-    const pair = groups[0].v;
-    const kickers = uniqueDesc.filter((v) => v !== pair).slice(0, 3);
-    return [1, pair, ...kickers];
-  }
-
-  // High card
-  return [0, ...uniqueDesc.slice(0, 5)];
-}
-
 const VALUE_TO_NAME: Record<number, string> = {
   14: "Ace",
   13: "King",
@@ -395,6 +251,12 @@ function CardTile({ card }: { card: Card }) {
   );
 }
 
+// Log line for an action; betting actions also show the pot after them
+function actionLogText(event: ActionEvent) {
+  const text = describeAction(event);
+  return isBettingAction(event.kind) ? `${text} (${formatBB(event.potAfter)}bb)` : text;
+}
+
 function renderActionText(text: string) {
   return text.split(/([♠♥♦♣])/).map((part, i) => {
     const suitClass = SUIT_COLOR[part];
@@ -449,6 +311,54 @@ function BetChip({ amount, label }: { amount: number; label?: string }) {
   );
 }
 
+function ShotClock({
+  clock,
+  timerSeconds,
+  className,
+}: {
+  clock: ActionClock;
+  timerSeconds: number;
+  className: string;
+}) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 200);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Decision time runs down first, then the time bank (in red)
+  const inTimeBank = now >= clock.decisionDeadline;
+  const remaining = Math.max(0, (inTimeBank ? clock.deadline : clock.decisionDeadline) - now);
+  const total = inTimeBank ? Math.max(1, clock.deadline - clock.decisionDeadline) : timerSeconds * 1000;
+  const fraction = Math.min(1, remaining / total);
+
+  const radius = 18;
+  const circumference = 2 * Math.PI * radius;
+
+  return (
+    <div className={className} title={inTimeBank ? "Time bank" : "Time to act"}>
+      <svg viewBox="0 0 44 44" className="h-full w-full -rotate-90">
+        <circle cx="22" cy="22" r={radius} fill="black" fillOpacity={0.7} stroke="white" strokeOpacity={0.2} strokeWidth="4" />
+        <circle
+          cx="22"
+          cy="22"
+          r={radius}
+          fill="none"
+          stroke={inTimeBank ? "#ef4444" : "white"}
+          strokeWidth="4"
+          strokeLinecap="round"
+          strokeDasharray={circumference}
+          strokeDashoffset={circumference * (1 - fraction)}
+        />
+      </svg>
+      <span className="absolute inset-0 flex items-center justify-center text-[13px] min-[1536px]:max-[1650px]:text-[11px] font-bold tabular-nums text-white">
+        {Math.ceil(remaining / 1000)}
+      </span>
+    </div>
+  );
+}
+
 function ConfirmModal({
   open,
   title,
@@ -494,6 +404,403 @@ function ConfirmModal({
   );
 }
 
+function GameSettingsModal({
+  open,
+  settings,
+  onChange,
+  onCancel,
+  onConfirm,
+}: {
+  open: boolean;
+  settings: GameSettings;
+  onChange: (settings: GameSettings) => void;
+  onCancel: () => void;
+  onConfirm: () => void;
+}) {
+  if (!open) return null;
+
+  const { unit, length } = settings.blindLevelDuration;
+  const speedIndex = GAME_SETTING_CHOICES.blindSpeeds.findIndex(
+    (speed) => speed.duration.unit === unit && speed.duration.length === length
+  );
+  const selectClass =
+    "rounded-xl min-[1536px]:max-[1650px]:rounded-lg border border-gray-300 bg-white px-2 py-1 text-sm min-[1536px]:max-[1650px]:text-xs text-gray-900";
+  const labelClass = "flex items-center justify-between gap-4 text-sm min-[1536px]:max-[1650px]:text-xs text-gray-800";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-6">
+      <div className="absolute inset-0 bg-black/50" onClick={onCancel} aria-hidden="true" />
+      <div className="relative w-full max-w-md min-[1536px]:max-[1650px]:max-w-[350px] rounded-3xl min-[1536px]:max-[1650px]:rounded-2xl border border-gray-300 bg-gray-100 p-6 min-[1536px]:max-[1650px]:p-4 shadow-lg">
+        <h3 className="mb-4 min-[1536px]:max-[1650px]:mb-3 text-lg min-[1536px]:max-[1650px]:text-base font-bold text-gray-900">Game settings</h3>
+
+        <div className="mb-6 min-[1536px]:max-[1650px]:mb-4 flex flex-col gap-3">
+          <label className={labelClass}>
+            Starting stack
+            <select
+              value={settings.startingStackBB}
+              onChange={(e) => onChange({ ...settings, startingStackBB: Number(e.target.value) })}
+              className={selectClass}
+            >
+              {GAME_SETTING_CHOICES.startingStackBB.map((bb) => (
+                <option key={bb} value={bb}>{bb} BB</option>
+              ))}
+            </select>
+          </label>
+
+          <label className={labelClass}>
+            Blinds go up
+            <select
+              value={speedIndex}
+              onChange={(e) => {
+                const duration = GAME_SETTING_CHOICES.blindSpeeds[Number(e.target.value)].duration;
+                onChange({
+                  ...settings,
+                  blindLevelDuration: duration,
+                  warningStartsAt: Math.min(settings.warningStartsAt, duration.length),
+                });
+              }}
+              className={selectClass}
+            >
+              {speedIndex === -1 && <option value={-1}>Every {length} {unit}</option>}
+              {GAME_SETTING_CHOICES.blindSpeeds.map((speed, i) => (
+                <option key={speed.label} value={i}>{speed.label}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className={labelClass}>
+            Warn about new blinds from
+            <select
+              value={settings.warningStartsAt}
+              onChange={(e) => onChange({ ...settings, warningStartsAt: Number(e.target.value) })}
+              className={selectClass}
+            >
+              {Array.from({ length }, (_, i) => i + 1).map((n) => (
+                <option key={n} value={n}>{unit === "hands" ? "Hand" : "Minute"} {n} of {length}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className={labelClass}>
+            Action timer
+            <select
+              value={settings.actionTimerSeconds}
+              onChange={(e) => onChange({ ...settings, actionTimerSeconds: Number(e.target.value) })}
+              className={selectClass}
+            >
+              {GAME_SETTING_CHOICES.actionTimerSeconds.map((seconds) => (
+                <option key={seconds} value={seconds}>{seconds === 0 ? "Off" : `${seconds} seconds`}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className={labelClass}>
+            Spectator delay
+            <select
+              value={settings.spectatorDelaySeconds}
+              onChange={(e) => onChange({ ...settings, spectatorDelaySeconds: Number(e.target.value) })}
+              className={selectClass}
+            >
+              {GAME_SETTING_CHOICES.spectatorDelaySeconds.map((seconds) => (
+                <option key={seconds} value={seconds}>{seconds === 0 ? "Live" : `${seconds} seconds`}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onConfirm}
+            className="rounded-2xl min-[1536px]:max-[1650px]:rounded-xl border px-4 py-2 min-[1536px]:max-[1650px]:px-3 min-[1536px]:max-[1650px]:py-1.5 text-sm min-[1536px]:max-[1650px]:text-xs font-semibold text-gray-900 transition-colors hover:bg-gray-200"
+          >
+            Create game
+          </button>
+          <button
+            onClick={onCancel}
+            className="rounded-2xl min-[1536px]:max-[1650px]:rounded-xl border px-4 py-2 min-[1536px]:max-[1650px]:px-3 min-[1536px]:max-[1650px]:py-1.5 text-sm min-[1536px]:max-[1650px]:text-xs font-semibold text-gray-900 transition-colors hover:bg-gray-200"
+          >
+            Go back
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+
+// Shown with a PIN nobody has joined yet: play the AI in the meantime
+function PlayBotControl({ onPlay, buttonClass }: { onPlay: (style: BotStyle) => void; buttonClass: string }) {
+  const [style, setStyle] = useState<BotStyle>("balanced");
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={style}
+        onChange={(e) => setStyle(e.target.value as BotStyle)}
+        className="rounded-xl min-[1536px]:max-[1650px]:rounded-lg border border-gray-300 bg-white px-2 py-1 text-xs text-gray-900"
+      >
+        {BOT_STYLES.map((s) => (
+          <option key={s} value={s}>{BOT_PROFILES[s].label}</option>
+        ))}
+      </select>
+      <button type="button" onClick={() => onPlay(style)} className={buttonClass}>
+        Play a bot
+      </button>
+    </div>
+  );
+}
+
+function StatsPanel({ hero, opp, oppName }: { hero: PlayerStats; opp: PlayerStats; oppName: string }) {
+  const heroRows = statRows(hero);
+  const oppRows = statRows(opp);
+  return (
+    <div className="mt-3 rounded-xl border border-white/20 px-3 py-2 text-xs min-[1536px]:max-[1650px]:text-[10px] text-white/80">
+      <table className="w-full tabular-nums">
+        <thead>
+          <tr className="text-white/50">
+            <th className="text-left font-normal">This match · {hero.hands} hands</th>
+            <th className="text-right font-normal">You</th>
+            <th className="text-right font-normal">{oppName}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {heroRows.map((row, i) => (
+            <tr key={row.label}>
+              <td>{row.label}</td>
+              <td className="text-right">{row.value}</td>
+              <td className="text-right">{oppRows[i].value}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// Win/tie chances for one hand at each street of an all-in runout
+function RunoutEquity({ streets, hand, className }: { streets: StreetEquity[] | null; hand: 0 | 1; className: string }) {
+  return (
+    <div className={`rounded-xl border border-white/20 bg-black/60 px-3 py-2 text-xs min-[1536px]:max-[1650px]:text-[10px] text-white/80 ${className}`}>
+      <div className="mb-1 text-white/50">Equity</div>
+      {streets ? (
+        <table className="tabular-nums">
+          <tbody>
+            {streets.map((s) => (
+              <tr key={s.street}>
+                <td className="pr-3">{s.street}</td>
+                <td className="text-right font-semibold text-white">{formatEquity(s.equities[hand].win)}</td>
+                <td className="pl-2 text-right text-white/50">
+                  {s.equities[hand].tie > 0 ? `tie ${formatEquity(s.equities[hand].tie)}` : ""}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <div className="text-white/50">Calculating…</div>
+      )}
+    </div>
+  );
+}
+
+function HandReplayer({
+  hands,
+  importNote,
+  onImportFile,
+  onClose,
+}: {
+  hands: HandLogSnapshot[];
+  importNote: string | null;
+  onImportFile: (file: File) => void;
+  onClose: () => void;
+}) {
+  const [handIndex, setHandIndex] = useState(0);
+  const [step, setStep] = useState(0);
+
+  const snap = hands[handIndex] ?? null;
+  const frames = useMemo(() => (snap ? replayFrames(snap) : []), [snap]);
+  const frame = frames[Math.min(step, frames.length - 1)] ?? null;
+  const lastStep = frames.length - 1;
+
+  function selectHand(index: number) {
+    setHandIndex(index);
+    setStep(0);
+  }
+
+  // Jump to where the next / previous street starts
+  function streetStep(direction: 1 | -1) {
+    const streetStart = (i: number) => frames.findIndex((f) => f.street === frames[i].street);
+    if (direction === 1) {
+      const next = frames.findIndex((f, i) => i > step && f.street !== frames[step].street);
+      setStep(next === -1 ? lastStep : next);
+    } else {
+      const start = streetStart(step);
+      setStep(step > start ? start : start > 0 ? streetStart(start - 1) : 0);
+    }
+  }
+
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (e.key === "ArrowRight") setStep((s) => Math.min(s + 1, lastStep));
+      if (e.key === "ArrowLeft") setStep((s) => Math.max(s - 1, 0));
+    }
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [lastStep]);
+
+  const heroSeat = snap ? heroSeatOf(snap) : "bottom";
+  const oppName = snap?.oppName ?? (snap?.oppStyle ? botName(snap.oppStyle) : "Opponent");
+  const oppSeat: Seat = heroSeat === "top" ? "bottom" : "top";
+  const oppCards = snap?.oppCards ?? null;
+  const buttonClass =
+    "rounded-xl border border-white/20 px-3 py-1.5 text-sm font-semibold text-white transition-colors hover:bg-white/10 disabled:opacity-40";
+
+  return (
+    <main className="flex min-h-screen justify-center bg-black px-6 py-6">
+      <div className="w-full max-w-[96rem] flex flex-col">
+        <div className="mb-6 flex items-center justify-center gap-4">
+          <h1 className="text-3xl font-bold">Hand replayer</h1>
+          <label className="cursor-pointer rounded-xl border px-4 py-1.5 text-sm font-semibold transition-colors hover:bg-gray-50 hover:text-black">
+            Load hand history
+            <input
+              type="file"
+              accept=".txt,text/plain"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImportFile(file);
+                e.target.value = "";
+              }}
+            />
+          </label>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-xl border px-4 py-1.5 text-sm font-semibold transition-colors hover:bg-gray-50 hover:text-black"
+          >
+            Back
+          </button>
+        </div>
+
+        {importNote && <p className="mb-4 text-center text-sm text-white/60">{importNote}</p>}
+
+        {!snap || !frame ? (
+          <p className="text-center text-sm text-white/60">
+            Load a hand history file (exported from here or PokerStars format) to replay it.
+          </p>
+        ) : (
+          <div className="grid grid-cols-[260px_1fr] gap-8">
+            {/* Hand list */}
+            <div className="max-h-[calc(100vh-160px)] overflow-y-auto rounded-3xl border border-white/20 p-3">
+              {hands.map((h, i) => (
+                <button
+                  key={`${h.handNo}-${i}`}
+                  type="button"
+                  onClick={() => selectHand(i)}
+                  className={`flex w-full items-center justify-between rounded-xl px-3 py-2 text-left text-sm text-white transition-colors hover:bg-white/10 ${
+                    i === handIndex ? "bg-white/15" : ""
+                  }`}
+                >
+                  <span>Hand #{h.handNo + 1}</span>
+                  <span className="tabular-nums">
+                    {renderActionText(`${cardStr(h.heroCards[0])} ${cardStr(h.heroCards[1])}`)}
+                  </span>
+                </button>
+              ))}
+            </div>
+
+            <div className="flex flex-col items-center gap-6">
+              {/* TOP SEAT (Opponent) */}
+              <div className="relative h-[220px] w-[216px] rounded-3xl border border-white/20 bg-black/50 text-center">
+                <div className="absolute -bottom-14 left-1/2 -translate-x-1/2">
+                  <BetChip amount={frame.bets[oppSeat]} />
+                </div>
+                <div className="flex h-full flex-col justify-center">
+                  <div className="text-sm uppercase text-white opacity-60">
+                    {oppName} ({snap.oppPos})
+                  </div>
+                  <div className="mt-2 text-sm text-white">
+                    Stack: <span className="font-semibold tabular-nums">{formatBB(frame.stacks[oppSeat])}bb</span>
+                  </div>
+                  <div className="mt-4 flex justify-center gap-3">
+                    {frame.revealed[oppSeat] && oppCards ? (
+                      <>
+                        <CardTile card={oppCards[0]} />
+                        <CardTile card={oppCards[1]} />
+                      </>
+                    ) : (
+                      <>
+                        <CardBack />
+                        <CardBack />
+                      </>
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              {/* BOARD */}
+              <div className="flex h-40 flex-col items-center justify-center gap-3">
+                <div className="flex gap-3">
+                  {frame.board.map((c, i) => (
+                    <CardTile key={i} card={c} />
+                  ))}
+                </div>
+                <div className="text-sm text-white/70 tabular-nums">
+                  {frame.street} · Pot {formatBB(frame.pot + frame.bets.top + frame.bets.bottom)}bb
+                </div>
+              </div>
+
+              {/* BOTTOM SEAT (Hero) */}
+              <div className="relative h-[220px] w-[216px] rounded-3xl border border-white/20 bg-black/50 text-center">
+                <div className="absolute -top-14 left-1/2 -translate-x-1/2">
+                  <BetChip amount={frame.bets[heroSeat]} />
+                </div>
+                <div className="flex h-full flex-col justify-center">
+                  <div className="text-sm uppercase text-white opacity-60">
+                    {snap.heroName ?? "You"} ({snap.heroPos})
+                  </div>
+                  <div className="mt-2 text-sm text-white">
+                    Stack: <span className="font-semibold tabular-nums">{formatBB(frame.stacks[heroSeat])}bb</span>
+                  </div>
+                  <div className="mt-4 flex justify-center gap-3">
+                    <CardTile card={snap.heroCards[0]} />
+                    <CardTile card={snap.heroCards[1]} />
+                  </div>
+                </div>
+              </div>
+
+              {/* Controls */}
+              <div className="flex flex-col items-center gap-3">
+                <div className="min-h-5 text-sm text-white">
+                  {frame.lastAction
+                    ? <>{frame.lastAction.seat === heroSeat ? snap.heroName ?? "You" : oppName}: {renderActionText(actionLogText(frame.lastAction.event))}</>
+                    : "Cards dealt"}
+                </div>
+                <div className="flex items-center gap-2">
+                  <button type="button" onClick={() => streetStep(-1)} disabled={step === 0} className={buttonClass}>
+                    « Street
+                  </button>
+                  <button type="button" onClick={() => setStep(Math.max(step - 1, 0))} disabled={step === 0} className={buttonClass}>
+                    ‹ Back
+                  </button>
+                  <div className="w-20 text-center text-sm text-white/70 tabular-nums">
+                    {step} / {lastStep}
+                  </div>
+                  <button type="button" onClick={() => setStep(Math.min(step + 1, lastStep))} disabled={step >= lastStep} className={buttonClass}>
+                    Next ›
+                  </button>
+                  <button type="button" onClick={() => streetStep(1)} disabled={step >= lastStep} className={buttonClass}>
+                    Street »
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
+
 
 /* ---------- main ---------- */
 
@@ -506,8 +813,13 @@ export default function Home() {
 
 const handNo = handId + 1; // 1-based
 
-const SB = BASE_SB; // always 0.5
-const BB = BASE_BB; // always 1
+  // Single-player blind level (multiplayer uses mpState.blindLevel)
+  const [blindLevel, setBlindLevel] = useState(0);
+  const [gameStartedAt, setGameStartedAt] = useState(() => Date.now());
+  // Ticks so timed blind warnings count down between hands
+  const [blindClock, setBlindClock] = useState(() => Date.now());
+
+const BB = getBlindLevel(blindLevel).bb; // in chips
 
   const [auth, setAuth] = useState<AuthoritativeState>(() => ({
   street: 0,
@@ -529,6 +841,7 @@ const BB = BASE_BB; // always 1
   showdownFirst: null,
   oppRevealed: false,
   youMucked: false,
+  runningOut: false,
   streetBettor: null,
   canShowTop: false,
   canShowBottom: false,
@@ -647,6 +960,10 @@ const setYouMucked = (next: any) =>
     youMucked: typeof next === "function" ? next(prev.youMucked) : next,
   }));
 
+const runningOut = auth.runningOut;
+const setRunningOut = (next: boolean) =>
+  setAuth((prev) => ({ ...prev, runningOut: next }));
+
 const canShowTop = auth.canShowTop;
 const setCanShowTop = (next: any) =>
   setAuth((prev) => ({
@@ -685,10 +1002,10 @@ const setStreetBettor = (next: any) =>
 
   const [dealerOffset, setDealerOffset] = useState<0 | 1>(0);
 
-  const [betSize, setBetSize] = useState<number | "">("");
+  const [betSize, setBetSize] = useState<number | "">(""); // in chips
 
   const [game, setGame] = useState<GameState>({
-    stacks: { top: STARTING_STACK_BB, bottom: STARTING_STACK_BB },
+    stacks: { top: STARTING_STACK, bottom: STARTING_STACK },
     bets: { top: 0, bottom: 0 },
     pot: 0,
   });
@@ -700,19 +1017,37 @@ const setStreetBettor = (next: any) =>
   const [showDashboardConfirm, setShowDashboardConfirm] = useState(false);
   const [opponentQuit, setOpponentQuit] = useState(false);
   const [opponentName, setOpponentName] = useState<string | null>(null);
+  const [dealVerification, setDealVerification] = useState<{ handId: number; verified: boolean } | null>(null);
+  const [actionRejectedReason, setActionRejectedReason] = useState<string | null>(null);
 
   const [handLogHistory, setHandLogHistory] = useState<HandLogSnapshot[]>([]);
   const [logViewOffset, setLogViewOffset] = useState(0);
 
+  // Hand replayer: session or imported hands, oldest first
+  const [replayHands, setReplayHands] = useState<HandLogSnapshot[]>([]);
+  const [replayLoadId, setReplayLoadId] = useState(0);
+  const [replayImportNote, setReplayImportNote] = useState<string | null>(null);
+  const [replayReturnScreen, setReplayReturnScreen] = useState<Screen>("role");
+  const [pastGames, setPastGames] = useState<PastGame[] | null>(null);
+  const [pastGamesReturnScreen, setPastGamesReturnScreen] = useState<Screen>("role");
+  const [lifetimeStats, setLifetimeStats] = useState<PlayerStats | null>(null);
+
   const [screen, setScreen] = useState<Screen>("role");
   const [gamePin, setGamePin] = useState<string | null>(null);
   const [joinMode, setJoinMode] = useState(false);
   const [joinPinInput, setJoinPinInput] = useState("");
   const [creatingGame, setCreatingGame] = useState(false);
+  // Settings of the PIN game being created (or restored from the games row)
+  const [gameSettings, setGameSettings] = useState<GameSettings>(DEFAULT_GAME_SETTINGS);
+  // Read by the host when the game starts, so later edits don't restart the channel
+  const gameSettingsRef = useRef<GameSettings>(DEFAULT_GAME_SETTINGS);
+  const [gameSettingsOpen, setGameSettingsOpen] = useState(false);
   const [isCreatingPin, setIsCreatingPin] = useState(false);
 
   const [gameId, setGameId] = useState<string | null>(null);
   const [mySeat, setMySeat] = useState<Seat>("bottom");
+  // Watching a PIN game from the host's side of the table, without a seat
+  const [spectating, setSpectating] = useState(false);
   const [multiplayerActive, setMultiplayerActive] = useState(false);
   const [isReconnecting, setIsReconnecting] = useState(true);
   const [savedHostState, setSavedHostState] = useState<HostState | null>(null);
@@ -724,11 +1059,15 @@ const [mpJoiner, setMpJoiner] = useState<MultiplayerJoiner | null>(null);
 // Refs for accessing controllers in callbacks (avoids stale closures)
 const mpHostRef = useRef<MultiplayerHost | null>(null);
 const mpJoinerRef = useRef<MultiplayerJoiner | null>(null);
+const mpSpectatorRef = useRef<MultiplayerSpectator | null>(null);
 
-// Store the multiplayer state (received from host or from local host controller)
-const [mpState, setMpState] = useState<HostState | null>(null);
+// AI style for the top seat of a PIN game nobody has joined yet
+const pinBotStyleRef = useRef<BotStyle | null>(null);
 
-    const isHost = mySeat === "bottom";
+// Store the multiplayer state (our redacted view, received from host or from local host controller)
+const [mpState, setMpState] = useState<HostStateView | null>(null);
+
+    const isHost = mySeat === "bottom" && !spectating;
   const suppressMpRef = useRef(false);
 
   function applyActionFromSeat(seat: Seat, action: GameAction) {
@@ -763,11 +1102,14 @@ const [mpState, setMpState] = useState<HostState | null>(null);
 const [playAgainRequested, setPlayAgainRequested] = useState(false);
 const [opponentWantsPlayAgain, setOpponentWantsPlayAgain] = useState(false);
 
-const [aiEnabled, setAiEnabled] = useState(false);
+// Style of the single-player AI opponent; null = AI off
+const [botStyle, setBotStyle] = useState<BotStyle | null>(null);
+// Training aid: show the push/fold chart's play for the hero's hand
+const [showPushFoldChart, setShowPushFoldChart] = useState(false);
 
 useEffect(() => {
   if (gamePin) {
-    setAiEnabled(false);
+    setBotStyle(null);
   }
 }, [gamePin]);
 
@@ -896,7 +1238,11 @@ const [savingProfile, setSavingProfile] = useState(false);
   const actionLogRef = useRef<ActionLogItem[]>([]);
   const endedStreetRef = useRef<Street>(0);
   const blindsPostedRef = useRef(false);
+  const equityWorkerRef = useRef<Worker | null>(null);
+  const equityRequestIdRef = useRef(0);
+  const [runoutEquity, setRunoutEquity] = useState<{ id: string | null; streets: StreetEquity[] } | null>(null);
   const blindsKeyRef = useRef<string | null>(null);
+  const savedHandKeyRef = useRef<string | null>(null); // "gameSession:handId:log length" last written to Supabase
   const gameRef = useRef(game);
   const streetRef = useRef<Street>(street);
   const actionSequenceRef = useRef(0);
@@ -913,6 +1259,10 @@ useEffect(() => {
   streetRef.current = street;
 }, [street]);
 
+useEffect(() => {
+  gameSettingsRef.current = gameSettings;
+}, [gameSettings]);
+
 // Set page title
 useEffect(() => {
   document.title = 'HeadsUp';
@@ -949,7 +1299,28 @@ useEffect(() => {
   if (!gameId) return;
   if (!multiplayerActive) return;
 
-  const ch = supabase.channel(`game:${gameId}`);
+  // Spectators get a channel of their own: the players' channel carries the
+  // joiner's view, hole cards and all. The host is on both.
+  const spectatorChannelName = `game:${gameId}:spectators`;
+  const ch = supabase.channel(spectating ? spectatorChannelName : `game:${gameId}`);
+  const spectatorCh = isHost ? supabase.channel(spectatorChannelName) : null;
+  spectatorCh?.subscribe();
+  
+  // Host events are only taken from the game's creator
+  let cancelled = false;
+  const loadHostId = async () => {
+    const { data, error } = await supabase
+      .from("games")
+      .select("created_by")
+      .eq("id", gameId)
+      .single();
+    if (error || !data) {
+      console.error("Failed to load game host:", error);
+      alert("Could not load the game. Please try again.");
+      return null;
+    }
+    return cancelled ? null : (data.created_by as string);
+  };
 
   // Subscribe to channel
   ch.subscribe((status) => {
@@ -958,30 +1329,46 @@ useEffect(() => {
     if (status === 'SUBSCRIBED') {
       console.log('Successfully subscribed to game channel');
       
+      // SPECTATOR: watch only - no PLAYER_INFO, so we never take a seat
+      if (spectating) {
+        loadHostId().then((hostId) => {
+          if (!hostId) return;
+          mpSpectatorRef.current = new MultiplayerSpectator(
+            ch,
+            sbUser?.id ?? 'spectator',
+            hostId,
+            (state: HostStateView) => {
+              setMpState(state);
+            },
+            () => {
+              // A player left
+              setOpponentQuit(true);
+            }
+          );
+        });
+        return;
+      }
+      
       // Track if we've sent our info (to avoid infinite loop)
       let sentMyInfo = false;
+      const me = sbUser?.id ?? (isHost ? 'host' : 'joiner');
+      const sendMyInfo = () => {
+        sentMyInfo = true;
+        sendMpMessage(ch, me, {
+          event: "PLAYER_INFO",
+          name: studentProfile.firstName.slice(0, MAX_NAME_LENGTH) || null,
+        });
+      };
       
-      // Listen for opponent's profile info and play again events
-      ch.on("broadcast", { event: "mp" }, ({ payload }: any) => {
-        if (!payload) return;
-        if (payload.sender === (sbUser?.id ?? (isHost ? 'host' : 'joiner'))) return;
-        
+      // Listen for opponent's profile info and play again events (no host events)
+      onMpMessage(ch, me, null, (payload) => {
         if (payload.event === "PLAYER_INFO") {
           console.log("Received PLAYER_INFO:", payload.name);
           setOpponentName(payload.name || null);
           
           // Reply with our own info if we haven't yet (ensures both sides get names)
           if (!sentMyInfo) {
-            sentMyInfo = true;
-            ch.send({
-              type: "broadcast",
-              event: "mp",
-              payload: {
-                event: "PLAYER_INFO",
-                name: studentProfile.firstName || null,
-                sender: sbUser?.id ?? (isHost ? 'host' : 'joiner'),
-              },
-            });
+            sendMyInfo();
           }
         }
         
@@ -1002,7 +1389,7 @@ useEffect(() => {
           // Host resets the game when receiving accept from joiner
           if (isHost && mpHostRef.current) {
             mpHostRef.current.resetGame();
-            setMpState(JSON.parse(JSON.stringify(mpHostRef.current.getState())));
+            setMpState(mpHostRef.current.getStateFor("bottom"));
           }
           // Joiner will receive new state automatically via the normal state sync
         }
@@ -1012,16 +1399,7 @@ useEffect(() => {
         // Send host's profile info to joiner (with delay to ensure joiner is listening)
         setTimeout(() => {
           if (!sentMyInfo) {
-            sentMyInfo = true;
-            ch.send({
-              type: "broadcast",
-              event: "mp",
-              payload: {
-                event: "PLAYER_INFO",
-                name: studentProfile.firstName || null,
-                sender: sbUser?.id ?? 'host',
-              },
-            });
+            sendMyInfo();
           }
         }, 800);
         
@@ -1032,62 +1410,83 @@ useEffect(() => {
           dealerOffset, 
           () => {
             // When controller processes joiner's action, update host's display
-            const newState = JSON.parse(JSON.stringify(host.getState()));
-            setMpState(newState);
-            // Save state to sessionStorage for reconnection
-            sessionStorage.setItem('headsup_hostState', JSON.stringify(newState));
+            setMpState(host.getStateFor("bottom"));
+            // Save full state to sessionStorage for reconnection
+            sessionStorage.setItem('headsup_hostState', JSON.stringify(host.getState()));
           },
           () => {
             // Opponent quit
             setOpponentQuit(true);
           },
-          savedHostState // Pass saved state if reconnecting
+          savedHostState, // Pass saved state if reconnecting
+          gameSettingsRef.current,
+          spectatorCh
         );
         setMpHost(host);
         mpHostRef.current = host;
         
+        // Bind seats to their owners so remote actions can be checked against the sender
+        supabase
+          .from("game_players")
+          .select("user_id, seat")
+          .eq("game_id", gameId)
+          .then(({ data, error }) => {
+            if (error) {
+              console.error("Failed to load seat owners:", error);
+              return;
+            }
+            for (const player of data ?? []) {
+              if (player.seat === "top" || player.seat === "bottom") {
+                host.assignSeat(player.seat, player.user_id);
+              }
+            }
+          });
+        
         // Only start a new hand if we don't have saved state
         if (!savedHostState) {
+          if (pinBotStyleRef.current) host.seatBot(pinBotStyleRef.current);
           host.startHand();
         }
         // Update our own display with host's state
-        const initialState = JSON.parse(JSON.stringify(host.getState()));
-        setMpState(initialState);
+        setMpState(host.getStateFor("bottom"));
         // Save initial state
-        sessionStorage.setItem('headsup_hostState', JSON.stringify(initialState));
+        sessionStorage.setItem('headsup_hostState', JSON.stringify(host.getState()));
         // Clear savedHostState after using it
         setSavedHostState(null);
         
       } else {
         // JOINER: Create joiner controller
-        const joiner = new MultiplayerJoiner(
-          ch, 
-          sbUser?.id ?? 'joiner',
-          (state: HostState) => {
-            // When we receive state from host, update our display
-            setMpState(state);
-          },
-          () => {
-            // Opponent quit
-            setOpponentQuit(true);
-          }
-        );
-        setMpJoiner(joiner);
-        mpJoinerRef.current = joiner;
+        loadHostId().then((hostId) => {
+          if (!hostId) return;
+          const joiner = new MultiplayerJoiner(
+            ch, 
+            sbUser?.id ?? 'joiner',
+            hostId,
+            (state: HostStateView) => {
+              // When we receive state from host, update our display
+              setMpState(state);
+            },
+            () => {
+              // Opponent quit
+              setOpponentQuit(true);
+            },
+            (handId: number, verified: boolean) => {
+              // Result of auditing the host's deal commitment at hand end
+              setDealVerification({ handId, verified });
+            },
+            (reason: string) => {
+              // Host refused our action
+              setActionRejectedReason(reason);
+            }
+          );
+          setMpJoiner(joiner);
+          mpJoinerRef.current = joiner;
+        });
         
         // Send joiner's profile info to host (with delay to ensure host is listening)
         setTimeout(() => {
           if (!sentMyInfo) {
-            sentMyInfo = true;
-            ch.send({
-              type: "broadcast",
-              event: "mp",
-              payload: {
-                event: "PLAYER_INFO",
-                name: studentProfile.firstName || null,
-                sender: sbUser?.id ?? 'joiner',
-              },
-            });
+            sendMyInfo();
           }
         }, 800);
       }
@@ -1106,9 +1505,15 @@ useEffect(() => {
       setMpJoiner(null);
       mpJoinerRef.current = null;
     }
+    if (mpSpectatorRef.current) {
+      mpSpectatorRef.current.destroy();
+      mpSpectatorRef.current = null;
+    }
+    cancelled = true;
     supabase.removeChannel(ch);
+    if (spectatorCh) supabase.removeChannel(spectatorCh);
   };
-}, [gameId, multiplayerActive, isHost, sbUser?.id]);
+}, [gameId, multiplayerActive, isHost, spectating, sbUser?.id]);
 
 useEffect(() => {
   let mounted = true;
@@ -1236,6 +1641,16 @@ useEffect(() => {
   fetchProfiles();
 }, [sbUser?.id, screen]);
 
+// Lifetime stats for the dashboard profile card
+useEffect(() => {
+  if (!sbUser?.id) return;
+  if (screen !== 'dashboard' && screen !== 'professionalDashboard') return;
+
+  loadLifetimeHands(sbUser.id).then((hands) => {
+    setLifetimeStats(computePlayerStats(hands, "hero"));
+  });
+}, [sbUser?.id, screen]);
+
 // Check for active game session on mount (reconnection logic)
 useEffect(() => {
   async function checkForActiveGame() {
@@ -1254,7 +1669,7 @@ useEffect(() => {
       
       const { data: gameRow, error } = await supabase
         .from('games')
-        .select('id, pin, status')
+        .select('id, pin, status, settings')
         .eq('id', savedGameId)
         .single();
       
@@ -1271,6 +1686,7 @@ useEffect(() => {
       }
       
       console.log('Game found, reconnecting...', gameRow);
+      setGameSettings(normalizeGameSettings(gameRow.settings));
       
       const savedDealerOffset = sessionStorage.getItem('headsup_dealerOffset');
       if (savedDealerOffset) {
@@ -1292,8 +1708,9 @@ useEffect(() => {
       const savedHistoryJson = sessionStorage.getItem('headsup_handHistory');
       if (savedHistoryJson) {
         try {
-          const parsedHistory = JSON.parse(savedHistoryJson);
-          setHandLogHistory(parsedHistory);
+          const parsedHistory: HandLogSnapshot[] = JSON.parse(savedHistoryJson);
+          // Hands saved before the log recorded typed events can't be replayed or exported
+          setHandLogHistory(parsedHistory.filter((snap) => snap.log.every((item) => item.event)));
           console.log('Restored hand history from session');
         } catch (e) {
           console.error('Failed to parse saved history:', e);
@@ -1338,30 +1755,52 @@ useEffect(() => {
 
   const nonDealerSeat: Seat = dealerSeat === "top" ? "bottom" : "top";
 
-  // Calculate blind notice using correct hand ID
+  // Calculate blind notice using correct hand ID and level
   const effectiveHandId = multiplayerActive && mpState ? mpState.handId : handId;
-  const effectiveHandNo = effectiveHandId + 1;
-  const withinBlock = ((effectiveHandNo - 1) % GAME_CONFIG.BLINDS_INCREASE_EVERY_N_HANDS) + 1;
-  const blindNotice = (withinBlock >= GAME_CONFIG.WARNING_STARTS_AT_HAND && withinBlock <= GAME_CONFIG.BLINDS_INCREASE_EVERY_N_HANDS)
-    ? ((GAME_CONFIG.BLINDS_INCREASE_EVERY_N_HANDS + 1) - withinBlock === 1 
-        ? "Blinds will change next hand" 
-        : `Blinds will change in ${(GAME_CONFIG.BLINDS_INCREASE_EVERY_N_HANDS + 1) - withinBlock} hands`)
-    : null;
+  const effectiveBlindLevel = multiplayerActive && mpState ? mpState.blindLevel : blindLevel;
+  const effectiveGameStartedAt = multiplayerActive && mpState ? mpState.gameStartedAt : gameStartedAt;
+  const effectiveSettings = multiplayerActive && mpState ? mpState.settings : DEFAULT_GAME_SETTINGS;
+  const blindNotice = getBlindNotice(
+    effectiveSettings.blindLevelDuration,
+    effectiveSettings.warningStartsAt,
+    effectiveBlindLevel,
+    effectiveHandId,
+    blindClock - effectiveGameStartedAt
+  );
+
+  const blindLevelUnit = effectiveSettings.blindLevelDuration.unit;
+  useEffect(() => {
+    if (blindLevelUnit !== "minutes") return;
+    const interval = setInterval(() => setBlindClock(Date.now()), 10_000);
+    return () => clearInterval(interval);
+  }, [blindLevelUnit]);
 
   // Display variables - use mpState when in multiplayer, otherwise use local state
 const displayGame = multiplayerActive && mpState ? mpState.game : game;
 const displayToAct = multiplayerActive && mpState ? mpState.toAct : toAct;
-const displayCards = multiplayerActive && mpState ? mpState.cards : cards;
+// In multiplayer this is our redacted view: cards we may not see are null
+const displayCards: (Card | null)[] | null = multiplayerActive && mpState ? mpState.cards : cards;
 const displayActionLog = multiplayerActive && mpState ? mpState.actionLog : actionLog;
 const displayHandResult = multiplayerActive && mpState ? mpState.handResult : handResult;
 const displayStreet = multiplayerActive && mpState ? mpState.street : street;
 const displayOppRevealed = multiplayerActive && mpState ? mpState.oppRevealed : oppRevealed;
+const displayRunningOut = multiplayerActive && mpState ? mpState.runningOut : runningOut;
 const displayYouMucked = multiplayerActive && mpState ? mpState.youMucked : youMucked;
 const displayCanShowTop = multiplayerActive && mpState ? mpState.canShowTop : canShowTop;
 const displayCanShowBottom = multiplayerActive && mpState ? mpState.canShowBottom : canShowBottom;
 const displayTopShowed = multiplayerActive && mpState ? mpState.topShowed : topShowed;
 const displayBottomShowed = multiplayerActive && mpState ? mpState.bottomShowed : bottomShowed;
 
+// Shot clock (PIN games only)
+const displayActionClock = multiplayerActive && mpState ? mpState.actionClock : null;
+const displayActionTimerSeconds = multiplayerActive && mpState ? mpState.settings.actionTimerSeconds : 0;
+
+// What the seat to act may do: host-computed in multiplayer, same rules applied locally in single-player
+const displayLegalActions: LegalActions | null = multiplayerActive && mpState
+  ? mpState.legalActions
+  : computeLegalActions({ game, toAct, lastRaiseSize, handResult, gameOver, runningOut });
+const myLegalActions = !spectating && displayLegalActions?.seat === mySeat ? displayLegalActions : null;
+
   // Perspective helpers: map game seats to screen positions
   const myActualSeat = mySeat; // "bottom" for host, "top" for joiner
   const oppActualSeat: Seat = mySeat === "bottom" ? "top" : "bottom";
@@ -1388,11 +1827,11 @@ console.log('DEBUG - toAct:', toAct, 'mySeat:', mySeat, 'myTurn:', toAct === myS
   const myLabel = amIDealer ? "SB" : "BB";
   const oppLabel = amIDealer ? "BB" : "SB";
 
-  const isBottomTurn = seatedRole && displayToAct === mySeat && displayHandResult.status === "playing";
+  const isBottomTurn = seatedRole && !spectating && displayToAct === mySeat && displayHandResult.status === "playing";
 
   const [handStartStacks, setHandStartStacks] = useState<{ top: number; bottom: number }>({
-  top: STARTING_STACK_BB,
-  bottom: STARTING_STACK_BB,
+  top: STARTING_STACK,
+  bottom: STARTING_STACK,
 });
 
   // 0 = current hand, 1 = previous hand, 2 = two hands ago, etc.
@@ -1446,6 +1885,7 @@ async function createPinGame() {
         pin,
         created_by: user.id,
         status: "waiting",
+        settings: gameSettings,
       })
       .select("id,pin")
       .single();
@@ -1626,13 +2066,84 @@ async function joinPinGame() {
 
   // enter the game screen and wait for host's RESET
   clearTimers();
-  setBetSize(2);
+  setBetSize(2 * BB);
+  setSeatedRole((prev) => prev ?? "student");
+  setScreen("game");
+  setCreatingGame(false);
+}
+
+/**
+ * Watch a PIN game that's under way, without taking a seat
+ */
+async function watchPinGame() {
+  const pin = joinPinInput.trim();
+  if (pin.length !== 4) return;
+  if (creatingGame) return;
+  setCreatingGame(true);
+
+  try {
+    await getOrCreateUser();
+  } catch (e) {
+    console.error("watchPinGame auth failed:", e);
+    alert("Network error: Could not connect to server. Please check your internet connection and try again.");
+    setCreatingGame(false);
+    return;
+  }
+
+  const { data: gameRow, error: gameErr } = await supabase
+    .from("games")
+    .select("id,pin,status")
+    .eq("pin", pin)
+    .single();
+
+  if (gameErr || !gameRow) {
+    console.error("Game lookup error:", gameErr);
+    alert("Could not find game with that PIN. Please check the PIN and try again.");
+    setCreatingGame(false);
+    return;
+  }
+
+  if (gameRow.status !== "active") {
+    alert("That game hasn't started yet. Try again once both seats are filled.");
+    setCreatingGame(false);
+    return;
+  }
+
+  setJoinMode(false);
+  setJoinPinInput("");
+  setGamePin(gameRow.pin);
+  setGameId(gameRow.id);
+
+  // Watch from the host's side; set before enabling multiplayer so isHost is never true
+  setSpectating(true);
+  setMySeat("bottom");
+  setMultiplayerActive(true);
+
+  clearTimers();
   setSeatedRole((prev) => prev ?? "student");
   setScreen("game");
   setCreatingGame(false);
 }
 
+/**
+ * Host plays the PIN game against the AI; a joiner can still take its seat
+ */
+async function playPinGameVsBot(style: BotStyle) {
+  if (!gameId) return;
+  pinBotStyleRef.current = style;
+
+  await supabase.from("games").update({ status: "active" }).eq("id", gameId);
+
+  clearTimers();
+  setBetSize(2 * BB);
+  setSeatedRole((prev) => prev ?? "student");
+  setMultiplayerActive(true);
+  setScreen("game");
+}
+
 function clearPin() {
+  pinBotStyleRef.current = null;
+  setSpectating(false);
   setGamePin(null);
   setJoinMode(false);
   setJoinPinInput("");
@@ -1686,8 +2197,9 @@ function applyRemoteReset(p: {
   setShowdownFirst(null);
   setOppRevealed(false);
   setYouMucked(false);
+  setRunningOut(false);
 
-  setBetSize(2);
+  setBetSize(2 * BB);
   setHandLogHistory([]);
   setLogViewOffset(0);
 
@@ -1756,20 +2268,24 @@ function applyRemoteReset(p: {
       // Decide shown vs mucked from what actually got logged
       heroShown: (() => {
         const log = actionLogRef.current;
-        const mucked = log.some((it) => it.seat === "bottom" && /muck/i.test(it.text));
-        const showed = log.some((it) => it.seat === "bottom" && it.text.startsWith("Shows "));
+        const mucked = log.some((it) => it.seat === "bottom" && it.event.kind === "muck");
+        const showed = log.some((it) => it.seat === "bottom" && it.event.kind === "show");
         return showed && !mucked;
       })(),
       
       oppShown: (() => {
         const log = actionLogRef.current;
-        const mucked = log.some((it) => it.seat === "top" && /muck/i.test(it.text));
-        const showed = log.some((it) => it.seat === "top" && it.text.startsWith("Shows "));
+        const mucked = log.some((it) => it.seat === "top" && it.event.kind === "muck");
+        const showed = log.some((it) => it.seat === "top" && it.event.kind === "show");
         return showed && !mucked;
       })(),
 
       heroStartStack: handStartStacks.bottom,
       oppStartStack: handStartStacks.top,
+
+      blindLevel,
+      playedAt: Date.now(),
+      oppStyle: botStyle ?? undefined,
     };
 
     // Don't add duplicate snapshots for the same hand
@@ -1794,28 +2310,17 @@ function applyRemoteReset(p: {
 
   }, [seatedRole, handId, gameSession, multiplayerActive, isHost]);
 
-  function logAction(seat: Seat, text: string, potOverride?: number) {
-  const potNow =
+  function logAction(seat: Seat, event: Omit<ActionEvent, "potAfter">, potOverride?: number) {
+  const potAfter =
     potOverride ??
-    roundToHundredth(gameRef.current.pot + gameRef.current.bets.top + gameRef.current.bets.bottom);
-
-  const lower = text.toLowerCase();
-
-const shouldAppendPot =
-  blindsPostedRef.current &&
-  !lower.startsWith("posts") &&
-  !lower.startsWith("shows") &&
-  !lower.startsWith("split") &&
-  !lower.startsWith("wins");
-
-  const finalText = shouldAppendPot ? `${text} (${formatBB(potNow)}bb)` : text;
+    gameRef.current.pot + gameRef.current.bets.top + gameRef.current.bets.bottom;
 
   const item: ActionLogItem = {
     id: uid(),
     sequence: actionSequenceRef.current++,
     street: streetNameFromCount(street),
     seat,
-    text: finalText,
+    event: { ...event, potAfter },
   };
 
   setActionLog((prev: ActionLogItem[]) => {
@@ -1846,7 +2351,7 @@ setToAct(firstToAct);
   setGame((prev: GameState) => {
     const next = {
       ...prev,
-      pot: roundToHundredth(prev.pot + prev.bets.top + prev.bets.bottom),
+      pot: prev.pot + prev.bets.top + prev.bets.bottom,
       bets: { top: 0, bottom: 0 },
     };
 
@@ -1864,21 +2369,21 @@ setToAct(firstToAct);
   clearTimers();
 
   const prev = gameRef.current;
-  const fullPot = roundToHundredth(prev.pot + prev.bets.top + prev.bets.bottom);
+  const fullPot = prev.pot + prev.bets.top + prev.bets.bottom;
 
   // Compute next stacks deterministically (no setState side effects)
   let nextStacks: GameState["stacks"];
 
   if (winner === "tie") {
-    const half = roundToHundredth(fullPot / 2);
+    const shares = splitPot(fullPot, dealerSeat);
     nextStacks = {
-      top: roundToHundredth(prev.stacks.top + half),
-      bottom: roundToHundredth(prev.stacks.bottom + (fullPot - half)),
+      top: prev.stacks.top + shares.top,
+      bottom: prev.stacks.bottom + shares.bottom,
     };
   } else {
     nextStacks = {
       ...prev.stacks,
-      [winner]: roundToHundredth(prev.stacks[winner] + fullPot),
+      [winner]: prev.stacks[winner] + fullPot,
     } as GameState["stacks"];
   }
 
@@ -1923,11 +2428,12 @@ setToAct(firstToAct);
     setLastAggressor(null);
     setLastToActAfterAggro(null);
     setActionsThisStreet(0);
-    setBetSize(2);
+    setBetSize(2 * BB);
     setStreetBettor(null);
     setShowdownFirst(null);
     setOppRevealed(false);
     setYouMucked(false);
+    setRunningOut(false);
     setCanShowTop(false);
     setCanShowBottom(false);
     setTopShowed(false);
@@ -1960,7 +2466,7 @@ if (!multiplayerActive) {
 }
 
     const freshGame: GameState = {
-  stacks: { top: STARTING_STACK_BB, bottom: STARTING_STACK_BB },
+  stacks: { top: STARTING_STACK, bottom: STARTING_STACK },
   bets: { top: 0, bottom: 0 },
   pot: 0,
 };
@@ -1987,12 +2493,13 @@ setCards(nextCards);
     setShowdownFirst(null);
     setOppRevealed(false);
     setYouMucked(false);
+    setRunningOut(false);
     setCanShowTop(false);
     setCanShowBottom(false);
     setTopShowed(false);
     setBottomShowed(false);
 
-    setBetSize(2);
+    setBetSize(2 * BB);
     setHandLogHistory([]);
     setLogViewOffset(0);
 
@@ -2014,12 +2521,94 @@ allInCallThisHandRef.current = false;
       return;
     }
     if (!Number.isFinite(value)) return;
-    setBetSize(roundToHundredth(Math.max(0, value)));
+    setBetSize(Math.round(Math.max(0, value)));
+  }
+
+  // Determine if viewing history snapshot
+  const viewingSnapshot =
+    logViewOffset === 0 ? null : handLogHistory[logViewOffset - 1];
+
+  // Hand history export (PokerStars format). "Export hand" takes the hand being
+  // viewed, or the last finished hand when looking at the live one.
+  const exportableSnapshot = viewingSnapshot ?? handLogHistory[0] ?? null;
+
+  // The AI opponent goes by its style ("Maniac Bot"), also for past hands against it
+  const shownBotStyle = viewingSnapshot
+    ? viewingSnapshot.oppStyle
+    : multiplayerActive && mpState
+      ? (mySeat === "bottom" ? mpState.topSeatBot ?? undefined : undefined)
+      : gamePin ? undefined : botStyle;
+  const oppSeatName = shownBotStyle ? botName(shownBotStyle) : spectating ? "Joiner" : opponentName || "Opponent";
+  const heroSeatName = spectating ? "Host" : "You";
+  const oppLogName = shownBotStyle ? botName(shownBotStyle) : spectating ? "Joiner" : "Opponent";
+
+  // Dashboard profile card: "120 hands · VPIP 34% · PFR 22% · ..."
+  const lifetimeStatsText = lifetimeStats && lifetimeStats.hands > 0
+    ? [`${lifetimeStats.hands} hands`, ...statRows(lifetimeStats).map((row) => `${row.label} ${row.value}`)].join(" · ")
+    : null;
+
+  const matchStats = useMemo(
+    () => ({ hero: computePlayerStats(handLogHistory, "hero"), opp: computePlayerStats(handLogHistory, "opp") }),
+    [handLogHistory]
+  );
+
+  function downloadHandHistory(scope: "hand" | "session") {
+    const options = {
+      heroName: studentProfile.firstName || "Hero",
+      oppName: opponentName || "Opponent",
+      tableName: gamePin ? `HeadsUp ${gamePin}` : "HeadsUp Practice",
+      sessionId: effectiveGameStartedAt,
+    };
+
+    let text: string;
+    let fileName: string;
+    if (scope === "hand") {
+      if (!exportableSnapshot) return;
+      text = formatHandHistory(exportableSnapshot, options);
+      fileName = `headsup-hand-${exportableSnapshot.handNo + 1}.txt`;
+    } else {
+      if (handLogHistory.length === 0) return;
+      text = formatSessionHistory(handLogHistory, options);
+      fileName = `headsup-session-${effectiveGameStartedAt}.txt`;
+    }
+
+    const url = URL.createObjectURL(new Blob([text + "\n"], { type: "text/plain" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  function openReplayer(hands: HandLogSnapshot[], note: string | null = null) {
+    setReplayHands(hands);
+    setReplayImportNote(note);
+    setReplayLoadId((id) => id + 1);
+    if (screen !== "replayer") setReplayReturnScreen(screen);
+    setScreen("replayer");
+  }
+
+  async function openPastGames() {
+    if (!sbUser?.id) return;
+    if (screen !== "pastGames") setPastGamesReturnScreen(screen);
+    setPastGames(null);
+    setScreen("pastGames");
+    setPastGames(await loadPastGames(sbUser.id));
+  }
+
+  async function replayPastGame(game: PastGame) {
+    if (!sbUser?.id) return;
+    const hands = await loadGameHands(game.gameId, sbUser.id);
+    openReplayer(hands, `Game played ${new Date(game.firstPlayedAt).toLocaleString()}`);
   }
 
-  // Determine if viewing history snapshot
-  const viewingSnapshot =
-    logViewOffset === 0 ? null : handLogHistory[logViewOffset - 1];
+  async function importHandHistoryFile(file: File) {
+    const { hands, skipped } = parseHandHistories(await file.text());
+    const skippedNote = skipped > 0 ? ` (${skipped} skipped: only heads-up hands with your hole cards can be replayed)` : "";
+    openReplayer(hands, hands.length === 0
+      ? `No hands found in ${file.name}${skippedNote}`
+      : `Loaded ${hands.length} hand${hands.length === 1 ? "" : "s"} from ${file.name}${skippedNote}`);
+  }
 
   // Raw cards from deck: [0,1] = top seat, [2,3] = bottom seat
 const topRaw1 = displayCards?.[0];
@@ -2038,6 +2627,7 @@ const youRaw2 = mySeat === "bottom" ? bottomRaw2 : topRaw2;
   const [oppA, oppB] = useMemo(() => {
     // When viewing snapshot, use snapshot's opponent cards
     if (viewingSnapshot) {
+      if (!viewingSnapshot.oppCards) return [undefined, undefined] as const;
       return [viewingSnapshot.oppCards[0], viewingSnapshot.oppCards[1]] as const;
     }
     
@@ -2059,9 +2649,27 @@ const youRaw2 = mySeat === "bottom" ? bottomRaw2 : topRaw2;
     return a >= b ? ([youRaw1, youRaw2] as const) : ([youRaw2, youRaw1] as const);
   }, [youRaw1, youRaw2, viewingSnapshot]);
 
+  // Push/fold chart's play for the hero's hand this preflop, when the training aid is on
+  const pushFoldHint = (() => {
+    if (!showPushFoldChart || viewingSnapshot || !youC || !youD) return null;
+    if (displayStreet !== 0 || displayHandResult.status !== "playing") return null;
+
+    const position = amIDealer ? "SB" : "BB";
+    const level = getBlindLevel(effectiveBlindLevel);
+    const stackBB = effectiveStackBB(displayGame.stacks, displayGame.bets, level.bb);
+    const advice = pushFoldAdvice([youC, youD], position, stackBB, level.ante / level.bb);
+    if (!advice) return `Push/fold chart: ${stackBB.toFixed(1)}bb effective is deeper than the chart (${PUSH_FOLD_MAX_BB}bb)`;
+
+    const spot = position === "SB" ? "SB" : "BB vs all-in";
+    const verb = position === "SB" ? "pushes" : "calls";
+    const range = advice.upToBB >= PUSH_FOLD_MAX_BB ? "at any stack" : `up to ${advice.upToBB}bb`;
+    return `Push/fold chart (${stackBB.toFixed(1)}bb, ${spot}): ${advice.action} — ${advice.hand} ${verb} ${range}`;
+  })();
+
+  // Undealt board cards are null in the multiplayer view, so only dealt ones remain
   const board = viewingSnapshot 
     ? viewingSnapshot.endedBoard 
-    : (displayCards ? displayCards.slice(4, 9) : []);
+    : (displayCards ? displayCards.slice(4, 9).filter((c): c is Card => c !== null) : []);
   
   // Debug: Check if joiner hasn't received state yet
   if (multiplayerActive && !isHost && !mpState) {
@@ -2071,6 +2679,52 @@ const youRaw2 = mySeat === "bottom" ? bottomRaw2 : topRaw2;
     console.error('JOINER: Received state but cards are null!', mpState);
   }
 
+  // Opponent's hole cards are face up on the table (or in the viewed hand)
+  const oppCardsFaceUp = !!(oppA && oppB) && (viewingSnapshot
+    ? viewingSnapshot.oppShown
+    // A spectator's view only carries hole cards it may see; both hands are face up for a runout
+    : spectating || displayRunningOut || displayHandResult.status === "ended" && (
+        // Showdown: check if opponent was required to show
+        (displayHandResult.reason === "showdown" && (mySeat === "bottom" ? displayOppRevealed : !displayYouMucked))
+        // OR opponent clicked Show Hand button
+        || didOppShow
+      ));
+
+  // All-in runouts show each hand's equity at every street dealt so far, worked out in a
+  // Web Worker as the board comes. The key carries the whole request so the effect only
+  // reruns for a new street; the id names the runout, whose last result stays up meanwhile.
+  const runoutStreet = allInRunoutStreet(viewingSnapshot ? viewingSnapshot.log : displayActionLog);
+  const dealtBoard = viewingSnapshot ? board : board.slice(0, displayStreet);
+  const runoutId = runoutStreet && youC && youD && oppA && oppB && oppCardsFaceUp
+    ? JSON.stringify({ hands: [[youC, youD], [oppA, oppB]], fromStreet: runoutStreet })
+    : null;
+  const runoutKey = runoutId && JSON.stringify({ ...JSON.parse(runoutId), board: dealtBoard });
+
+  useEffect(() => {
+    if (!runoutKey) return;
+    if (!equityWorkerRef.current) {
+      equityWorkerRef.current = new Worker(new URL("./equity.worker.ts", import.meta.url));
+    }
+    const worker = equityWorkerRef.current;
+    const id = ++equityRequestIdRef.current;
+    worker.onmessage = (e: MessageEvent<EquityResponse>) => {
+      if (e.data.id !== equityRequestIdRef.current) return; // a newer runout was requested
+      setRunoutEquity({ id: runoutId, streets: e.data.streets });
+    };
+    const request: EquityRequest = { id, ...JSON.parse(runoutKey) };
+    worker.postMessage(request);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [runoutKey]);
+
+  useEffect(() => {
+    return () => {
+      equityWorkerRef.current?.terminate();
+      equityWorkerRef.current = null;
+    };
+  }, []);
+
+  const runoutStreets = runoutId && runoutEquity?.id === runoutId ? runoutEquity.streets : null;
+
   const heroHandRank = useMemo(() => {
   if (!youC || !youD) return null;
   if (street === 0) return null; // only postflop
@@ -2101,32 +2755,39 @@ useEffect(() => {
     setLastToActAfterAggro(null);
     setSawCallThisStreet(false);
     setActionsThisStreet(0);
-    setLastRaiseSize(BB);
 
-    const topBlind = dealerSeat === "top" ? SB : BB;
-    const bottomBlind = dealerSeat === "bottom" ? SB : BB;
+    // Blind level for this hand, from the schedule in gameConfig
+    const startedAt = handId === 0 ? Date.now() : gameStartedAt;
+    if (handId === 0) setGameStartedAt(startedAt);
+    const levelIndex = blindLevelIndexAt(GAME_CONFIG.BLIND_LEVEL_DURATION, handId, Date.now() - startedAt);
+    const level = getBlindLevel(levelIndex);
+    setBlindLevel(levelIndex);
+    setLastRaiseSize(level.bb);
+
+    const topBlind = dealerSeat === "top" ? level.sb : level.bb;
+    const bottomBlind = dealerSeat === "bottom" ? level.sb : level.bb;
 
     if (!multiplayerActive || isHost) {
       setGame((prev: GameState) => {
-        const isLevelChangeHand = handId !== 0 && handId % GAME_CONFIG.BLINDS_INCREASE_EVERY_N_HANDS === 0;
-        const mult = isLevelChangeHand ? 0.75 : 1;
-
-        const topScaled = roundToHundredth(prev.stacks.top * mult);
-        const bottomScaled = roundToHundredth(prev.stacks.bottom * mult);
+        // Antes go straight into the pot - cap at available stack if short
+        const topAnte = Math.min(level.ante, prev.stacks.top);
+        const bottomAnte = Math.min(level.ante, prev.stacks.bottom);
+        const topAfterAnte = prev.stacks.top - topAnte;
+        const bottomAfterAnte = prev.stacks.bottom - bottomAnte;
 
         // Cap blinds at available stack if short
-        const actualTopBlind = Math.min(topBlind, topScaled);
-        const actualBottomBlind = Math.min(bottomBlind, bottomScaled);
+        const actualTopBlind = Math.min(topBlind, topAfterAnte);
+        const actualBottomBlind = Math.min(bottomBlind, bottomAfterAnte);
         
         const nextGame = {
-          pot: 0,
+          pot: topAnte + bottomAnte,
           bets: {
-            top: roundToHundredth(actualTopBlind),
-            bottom: roundToHundredth(actualBottomBlind),
+            top: actualTopBlind,
+            bottom: actualBottomBlind,
           },
           stacks: {
-            top: roundToHundredth(Math.max(0, topScaled - actualTopBlind)),
-            bottom: roundToHundredth(Math.max(0, bottomScaled - actualBottomBlind)),
+            top: topAfterAnte - actualTopBlind,
+            bottom: bottomAfterAnte - actualBottomBlind,
           },
         };
 
@@ -2135,21 +2796,26 @@ useEffect(() => {
         const actualBB = dealerSeat === "top" ? actualBottomBlind : actualTopBlind;
         
         if (isHost && !suppressMpRef.current) {
-  const blindItems = [
-    {
-      id: uid(),
-      sequence: actionSequenceRef.current++,
-      street: "Preflop" as StreetName,
-      seat: dealerSeat,
-      text: `Posts SB ${formatBB(actualSB)}bb`
-    },
-    {
+  const antes = { top: topAnte, bottom: bottomAnte };
+  let potAfter = 0;
+  const blindItem = (seat: Seat, event: Omit<ActionEvent, "potAfter">): ActionLogItem => {
+    potAfter += event.amount ?? 0;
+    const allIn = event.kind !== "ante" && nextGame.stacks[seat] <= 0;
+    return {
       id: uid(),
       sequence: actionSequenceRef.current++,
-      street: "Preflop" as StreetName,
-      seat: nonDealerSeat,
-      text: `Posts BB ${formatBB(actualBB)}bb`
-    }
+      street: "Preflop",
+      seat,
+      event: { ...event, potAfter, ...(allIn ? { allIn } : {}) },
+    };
+  };
+  const anteItems = [dealerSeat, nonDealerSeat]
+    .filter((seat) => antes[seat] > 0)
+    .map((seat) => blindItem(seat, { kind: "ante", amount: antes[seat] }));
+  const blindItems = [
+    ...anteItems,
+    blindItem(dealerSeat, { kind: "smallBlind", amount: actualSB }),
+    blindItem(nonDealerSeat, { kind: "bigBlind", amount: actualBB }),
   ];
 
   // Host adds blind actions to its own log immediately BEFORE sending
@@ -2170,35 +2836,24 @@ useEffect(() => {
 
 }, 0);
 
-    setBetSize(2);
+    setBetSize(2 * level.bb);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [seatedRole, handId, dealerSeat, gameSession]);
 
  useEffect(() => {
   function onKeyDown(e: KeyboardEvent) {
     if (e.key !== "Enter") return;
-    if (!(displayToAct === mySeat && displayHandResult.status === "playing")) return;
+    if (!myLegalActions?.canBetRaise) return;
 
-    const effectiveLastRaiseSize = multiplayerActive && mpState ? mpState.lastRaiseSize : lastRaiseSize;
-    const facingBet = displayGame.bets[oppActualSeat] > displayGame.bets[myActualSeat];
-    
-    // Use same logic as bottomMinRaise calculation
-    const minRaise = facingBet 
-      ? roundToHundredth(displayGame.bets[oppActualSeat] + effectiveLastRaiseSize)
-      : (displayStreet === 0 && displayGame.bets[myActualSeat] > 0 && displayGame.bets[oppActualSeat] > 0)
-        ? roundToHundredth(Math.max(displayGame.bets[myActualSeat], displayGame.bets[oppActualSeat]) + BB)
-        : BB;
-    
-    const isOpeningAction = displayGame.bets[myActualSeat] === 0 && displayGame.bets[oppActualSeat] === 0;
-    const defaultSize = (displayStreet === 0 && isOpeningAction) ? 2 : minRaise;
-    const finalSize = betSize === "" ? defaultSize : Math.max(betSize, minRaise);
+    const { minRaiseTo, maxRaiseTo } = myLegalActions;
+    const finalSize = betSize === "" ? minRaiseTo : clamp(betSize, minRaiseTo, maxRaiseTo);
 
     dispatchAction({ type: "BET_RAISE_TO", to: finalSize });
   }
 
   window.addEventListener("keydown", onKeyDown);
   return () => window.removeEventListener("keydown", onKeyDown);
-}, [displayToAct, mySeat, displayHandResult.status, betSize, displayGame, oppActualSeat, myActualSeat, multiplayerActive, mpState, lastRaiseSize, BB, displayStreet, dispatchAction]);
+}, [myLegalActions, betSize, dispatchAction]);
 
   function currentFacingBet(seat: Seat) {
     const other: Seat = seat === "top" ? "bottom" : "top";
@@ -2207,17 +2862,18 @@ useEffect(() => {
 
   function amountToCall(seat: Seat) {
     const other: Seat = seat === "top" ? "bottom" : "top";
-    return roundToHundredth(Math.max(0, displayGame.bets[other] - displayGame.bets[seat]));
+    return Math.max(0, displayGame.bets[other] - displayGame.bets[seat]);
   }
   function canCheck(seat: Seat, g: GameState = gameRef.current, st: Street = streetRef.current) {
   const other: Seat = seat === "top" ? "bottom" : "top";
-  return roundToHundredth(g.bets[other]) === roundToHundredth(g.bets[seat]);
+  return g.bets[other] === g.bets[seat];
 }
 
   function settleIfStreetComplete() {
     if (handResult.status !== "playing") return;
+    if (runningOut) return;
 
-    const equalBets = roundToHundredth(game.bets.top) === roundToHundredth(game.bets.bottom);
+    const equalBets = game.bets.top === game.bets.bottom;
 
     if (lastAggressor) {
       if (equalBets && lastToActAfterAggro === null) {
@@ -2226,15 +2882,12 @@ useEffect(() => {
         if (street < 5) {
   const nextStreet: Street = street === 0 ? 3 : street === 3 ? 4 : 5;
 
-  // If anyone is all-in postflop, run it out to the river immediately
+  // If anyone is all-in, nobody can bet any more: run the board out
   const someoneAllIn = (game.stacks.top <= 0 || game.stacks.bottom <= 0);
 
   if (someoneAllIn) {
-    // show the full board
-    setStreet(5);
-
-    // go straight to showdown
-    resolveShowdown();
+    // a street at a time, then showdown (see the runout effect)
+    setRunningOut(true);
 
   } else {
     resetStreetRound(nextStreet);
@@ -2278,11 +2931,13 @@ if (
 ) {
   pullBetsIntoPot();
 
-  // NEW: if anyone is all-in, run it out to the river and resolve immediately
+  // If anyone is all-in, run the board out (see the runout effect)
   if (game.stacks.top <= 0 || game.stacks.bottom <= 0) {
-    setStreet(5);
-
-    resolveShowdown();
+    if (street < 5) {
+      setRunningOut(true);
+    } else {
+      resolveShowdown();
+    }
     return;
   }
 
@@ -2311,10 +2966,6 @@ if (
   endedStreetRef.current = 5;
   setEndedBoardSnapshot(5);
 
-  // ✅ DEFINE THESE EARLY - BEFORE logAction calls
-  const topBest5 = sortBest5ForDisplay(best5From7(top7));
-  const bottomBest5 = sortBest5ForDisplay(best5From7(bottom7));
-
   // Show order logic
   const firstToShow: Seat = (showdownFirstOverride ?? streetBettor ?? nonDealerSeat) as Seat;
   const secondToShow: Seat = firstToShow === "top" ? "bottom" : "top";
@@ -2331,45 +2982,35 @@ if (
   setOppRevealed(topShows);
   setYouMucked(!bottomShows);
 
-  // NOW you can use topBest5 and bottomBest5 in logAction
-  logAction(
-    firstToShow,
-    `Shows ${(firstToShow === "top" ? topBest5 : bottomBest5).map(cardStr).join("\u00A0")}`
-  );
+  const holeCards: Record<Seat, Card[]> = { top: [oppA!, oppB!], bottom: [youC!, youD!] };
+  logAction(firstToShow, { kind: "show", cards: holeCards[firstToShow] });
 
   if (secondShows) {
-    logAction(
-      secondToShow,
-      `Shows ${(secondToShow === "top" ? topBest5 : bottomBest5).map(cardStr).join("\u00A0")}`
-    );
+    logAction(secondToShow, { kind: "show", cards: holeCards[secondToShow] });
   } else {
-    logAction(secondToShow, secondToShow === "top" ? "Opponent mucked" : "You mucked");
+    logAction(secondToShow, { kind: "muck" });
   }
 
-  const potTotal = formatBB(
-    roundToHundredth(gameRef.current.pot + gameRef.current.bets.top + gameRef.current.bets.bottom)
-  );
+  const potChips = gameRef.current.pot + gameRef.current.bets.top + gameRef.current.bets.bottom;
+  const potTotal = formatBB(potChips);
 
   if (winner === "bottom") {
-    logAction("bottom", `Wins ${potTotal} BB ${bottomBest5.map(cardStr).join("\u00A0")}`);
+    logAction("bottom", { kind: "win", amount: potChips, showdown: true }, 0);
     endHand("bottom", "showdown", `You win ${potTotal} BB`);
     return;
   }
 
   if (winner === "top") {
-    logAction("top", `Wins ${potTotal} BB ${topBest5.map(cardStr).join("\u00A0")}`);
+    logAction("top", { kind: "win", amount: potChips, showdown: true }, 0);
     endHand("top", "showdown", `Opponent wins ${potTotal} BB`);
     return;
   }
 
-  const halfPot = formatBB(
-    roundToHundredth(
-      (gameRef.current.pot + gameRef.current.bets.top + gameRef.current.bets.bottom) / 2
-    )
-  );
+  const shares = splitPot(potChips, dealerSeat);
+  const myShare = formatBB(shares.bottom);
 
-  logAction("bottom", `Split pot ${halfPot} BB ${bottomBest5.map(cardStr).join("\u00A0")}`);
-  endHand("tie", "showdown", `Split pot ${halfPot} BB`);
+  logAction("bottom", { kind: "split", amount: shares.bottom, showdown: true }, shares.top);
+  endHand("tie", "showdown", `Split pot ${myShare} BB`);
 }
 
   function best5From7(all: Card[]) {
@@ -2489,18 +3130,13 @@ function cards5Str(cards5: Card[]) {
 
     const other: Seat = seat === "top" ? "bottom" : "top";
 
-    logAction(seat, "Folds");
+    logAction(seat, { kind: "fold" });
     endedStreetRef.current = street;
     setEndedBoardSnapshot(street);
 
-    const potTotal = formatBB(
-  roundToHundredth(displayGame.pot + displayGame.bets.top + displayGame.bets.bottom)
-);
+    const potTotal = displayGame.pot + displayGame.bets.top + displayGame.bets.bottom;
 
-logAction(
-  other,
-  `${other === "bottom" ? "You" : "Opponent"} wins ${potTotal}bb\n(no showdown)`
-);
+logAction(other, { kind: "win", amount: potTotal }, 0);
 
 endHand(
   other,
@@ -2514,14 +3150,14 @@ endHand(
   if (handResult.status !== "playing") return;
   if (!canCheck(seat)) return;
 
-  logAction(seat, "Checks");
+  logAction(seat, { kind: "check" });
   setChecked((prev: { top: boolean; bottom: boolean }) => ({ ...prev, [seat]: true }));
   setActionsThisStreet((n: number) => n + 1);
 
     if (
   street === 0 &&
   sawCallThisStreet &&
-  roundToHundredth(game.bets.top) === roundToHundredth(game.bets.bottom)
+  game.bets.top === game.bets.bottom
 ) {
   return;
 }
@@ -2535,7 +3171,7 @@ setToAct(other);
   if (handResult.status !== "playing") return;
 
     const toCall = amountToCall(seat);
-    const add = roundToHundredth(Math.min(toCall, game.stacks[seat]));
+    const add = Math.min(toCall, game.stacks[seat]);
 
     if (add <= 0) {
       if (canCheck(seat)) actCheck(seat);
@@ -2551,11 +3187,11 @@ setToAct(other);
   const seatBet = prev.bets[seat];
   const otherBet = prev.bets[other];
 
-  const toCallPrev = roundToHundredth(Math.max(0, otherBet - seatBet));
-  const addPrev = roundToHundredth(Math.min(toCallPrev, seatStack));
+  const toCallPrev = Math.max(0, otherBet - seatBet);
+  const addPrev = Math.min(toCallPrev, seatStack);
 
-  let newSeatStack = roundToHundredth(Math.max(0, seatStack - addPrev));
-  let newSeatBet = roundToHundredth(seatBet + addPrev);
+  let newSeatStack = Math.max(0, seatStack - addPrev);
+  let newSeatBet = seatBet + addPrev;
 
   let newOtherStack = otherStack;
   let newOtherBet = otherBet;
@@ -2563,10 +3199,10 @@ setToAct(other);
   // If caller couldn't fully call (all-in short), cap the bettor to the matched amount
   // and refund the unmatched remainder back to the bettor's stack.
   if (addPrev < toCallPrev) {
-    const refund = roundToHundredth(Math.max(0, newOtherBet - newSeatBet));
+    const refund = Math.max(0, newOtherBet - newSeatBet);
     if (refund > 0) {
-      newOtherBet = roundToHundredth(newOtherBet - refund);
-      newOtherStack = roundToHundredth(newOtherStack + refund);
+      newOtherBet -= refund;
+      newOtherStack += refund;
     }
   }
 
@@ -2585,7 +3221,7 @@ setToAct(other);
   };
 });
 
-const callerWillBeAllIn = roundToHundredth(game.stacks[seat] - add) <= 0;
+const callerWillBeAllIn = game.stacks[seat] - add <= 0;
 const bettor = streetBettor;
 const bettorSeat: Seat = seat === "top" ? "bottom" : "top";
 const facingBeforeCall = currentFacingBet(seat);
@@ -2604,8 +3240,8 @@ if (street !== 0 && callerWillBeAllIn && bettor) {
 
     logAction(
   seat,
-  `Calls ${formatBB(add)}bb`,
-  roundToHundredth(displayGame.pot + displayGame.bets.top + displayGame.bets.bottom + add)
+  { kind: "call", amount: add, ...(callerWillBeAllIn ? { allIn: true } : {}) },
+  displayGame.pot + displayGame.bets.top + displayGame.bets.bottom + add
 );
     setSawCallThisStreet(true);
     setActionsThisStreet((n: number) => n + 1);
@@ -2647,40 +3283,26 @@ if (street === 5 && currentFacingBet(seat)) {
   // Use the correct lastRaiseSize from multiplayer state if available
   const effectiveLastRaiseSize = multiplayerActive && mpState ? mpState.lastRaiseSize : lastRaiseSize;
   
-  // Calculate blind notice using correct hand ID
-  const effectiveHandId = multiplayerActive && mpState ? mpState.handId : handId;
-  const effectiveHandNo = effectiveHandId + 1;
-  const withinBlock = ((effectiveHandNo - 1) % GAME_CONFIG.BLINDS_INCREASE_EVERY_N_HANDS) + 1;
-  let blindNotice: string | null = null;
-  
-  if (withinBlock >= GAME_CONFIG.WARNING_STARTS_AT_HAND && withinBlock <= GAME_CONFIG.BLINDS_INCREASE_EVERY_N_HANDS) {
-    const remaining = (GAME_CONFIG.BLINDS_INCREASE_EVERY_N_HANDS + 1) - withinBlock;
-    blindNotice =
-      remaining === 1
-        ? "Blinds will change next hand"
-        : `Blinds will change in ${remaining} hands`;
-  }
-  
   if (isFacing) {
     // The previous raise size is stored in lastRaiseSize
     // Min raise = opponent's current bet + lastRaiseSize
-    minTarget = roundToHundredth(otherSeatBet + effectiveLastRaiseSize);
+    minTarget = otherSeatBet + effectiveLastRaiseSize;
   } else {
     // Opening bet: minimum is BB
     minTarget = BB;
   }
 
   // Maximum we can bet is our total chips
-  const maxPossible = roundToHundredth(mySeatBet + myStack);
+  const maxPossible = mySeatBet + myStack;
   
   // Effective maximum: opponent can only call up to their stack
-  const maxEffective = roundToHundredth(Math.min(maxPossible, otherSeatBet + otherStack));
+  const maxEffective = Math.min(maxPossible, otherSeatBet + otherStack);
 
   // If we can't meet the minimum raise, we can only call or go all-in
   const canMeetMinRaise = maxEffective >= minTarget;
   
   // If opponent is all-in and we're just matching, that's a call
-  const isJustCalling = isFacing && roundToHundredth(maxEffective) === roundToHundredth(otherSeatBet);
+  const isJustCalling = isFacing && maxEffective === otherSeatBet;
   
   if (isJustCalling) {
     actCall(seat);
@@ -2695,16 +3317,16 @@ if (street === 5 && currentFacingBet(seat)) {
     target = maxEffective;
   } else {
     // Clamp between min and max
-    target = roundToHundredth(clamp(targetTotalBet, minTarget, maxEffective));
+    target = clamp(targetTotalBet, minTarget, maxEffective);
   }
 
   // If somehow we end up matching opponent's bet exactly, that's a call
-  if (isFacing && roundToHundredth(target) === roundToHundredth(otherSeatBet)) {
+  if (isFacing && target === otherSeatBet) {
     actCall(seat);
     return;
   }
 
-  const chipsToAdd = roundToHundredth(target - mySeatBet);
+  const chipsToAdd = target - mySeatBet;
   if (chipsToAdd <= 0) return;
 
   // Update game state
@@ -2712,7 +3334,7 @@ if (street === 5 && currentFacingBet(seat)) {
     ...prev,
     stacks: {
       ...prev.stacks,
-      [seat]: roundToHundredth(prev.stacks[seat] - chipsToAdd),
+      [seat]: prev.stacks[seat] - chipsToAdd,
     } as GameState["stacks"],
     bets: {
       ...prev.bets,
@@ -2722,14 +3344,17 @@ if (street === 5 && currentFacingBet(seat)) {
 
   // Calculate the NEW raise size for the next player
   const newRaiseSize = isFacing 
-    ? roundToHundredth(target - otherSeatBet)
+    ? target - otherSeatBet
     : target;
   
   setLastRaiseSize(newRaiseSize);
 
   // Log the action
-  const actionText = isFacing ? `Raises to ${formatBB(target)}bb` : `Bets ${formatBB(target)}bb`;
-  logAction(seat, actionText, roundToHundredth(displayGame.pot + displayGame.bets.top + displayGame.bets.bottom + chipsToAdd));
+  logAction(
+    seat,
+    { kind: otherSeatBet > 0 ? "raise" : "bet", amount: target, ...(chipsToAdd >= myStack ? { allIn: true } : {}) },
+    displayGame.pot + displayGame.bets.top + displayGame.bets.bottom + chipsToAdd
+  );
 
   setStreetBettor(seat);
   setActionsThisStreet((n: number) => n + 1);
@@ -2755,9 +3380,13 @@ if (street === 5 && currentFacingBet(seat)) {
     
     if (isHost && mpHost) {
       // HOST: Process action directly
-      mpHost.processAction(seat, action);
+      const result = mpHost.processAction(seat, action);
+      if (!result.ok) {
+        setActionRejectedReason(result.reason);
+        return;
+      }
       // Update our display
-      setMpState(JSON.parse(JSON.stringify(mpHost.getState())));
+      setMpState(mpHost.getStateFor(seat));
     } else if (mpJoiner) {
       // JOINER: Send action to host
       mpJoiner.sendAction(seat, action);
@@ -2786,79 +3415,49 @@ if (street === 5 && currentFacingBet(seat)) {
   }
 }
 
-  /* ---------- opponent random behavior ---------- */
-
-  function pickOpponentBetSize(st: Street) {
-    const g = gameRef.current;
-    const potNow = roundToHundredth(g.pot + g.bets.top + g.bets.bottom);
-
-
-    if (st === 0) {
-      const options = [2.5, 3, 4, 5];
-      return options[Math.floor(Math.random() * options.length)];
-    }
-
-    const fractions = [0.33, 0.5, 0.75];
-    const f = fractions[Math.floor(Math.random() * fractions.length)];
-    const desiredAdd = roundToHundredth(potNow * f);
-
-    return roundToHundredth(game.bets.top + desiredAdd);
-  }
+  /* ---------- opponent AI ---------- */
 
   function opponentAct() {
   if (multiplayerActive) return;
 
   if (handResult.status !== "playing") return;
   if (toAct !== "top") return;
-
-  const tooMany = actionsThisStreet >= 4;
-  const st = street;
+  if (!cards) return;
 
   // Use latest game state (avoids stale reads that caused illegal "Checks")
   const g = gameRef.current;
   if (streetRef.current === 0 && (g.bets.top === 0 || g.bets.bottom === 0)) return;
 
- const callAmt = roundToHundredth(Math.max(0, g.bets.bottom - g.bets.top));
-  const facing = callAmt > 0;
-
-  // If not facing a bet, opponent may check or bet
-  if (!facing) {
- 
-  const r = Math.random();
-  if (tooMany || r < 0.62) {
-    actCheck("top");
-    return;
-  }
-
-  actBetRaiseTo("top", pickOpponentBetSize(st));
-  return;
-}
-
-  // Facing a bet: opponent must fold / call / raise (NO checking)
-  const potNow = roundToHundredth(g.pot + g.bets.top + g.bets.bottom);
-  const pressure = potNow > 0 ? clamp(callAmt / potNow, 0, 1) : 0.25;
-
-  const foldP = clamp(0.12 + pressure * 0.35, 0.05, 0.55);
-  const raiseP = tooMany ? 0 : clamp(0.18 - pressure * 0.1, 0.06, 0.22);
-
-  const r = Math.random();
-  if (r < foldP) {
-    actFold("top");
-    return;
-  }
-
-  if (r < foldP + raiseP) {
-    const curr = g.bets.top;
-    const otherBet = g.bets.bottom;
+  const legal = computeLegalActions({ game: g, toAct: "top", lastRaiseSize, handResult, gameOver, runningOut });
+  if (!legal) return;
 
-    const minRaiseTo = roundToHundredth(otherBet + lastRaiseSize);
-    const target = pickOpponentBetSize(st);
+  const action = decideBotAction({
+    seat: "top",
+    holeCards: [cards[0], cards[1]],
+    board: cards.slice(4, 4 + streetRef.current),
+    street: streetRef.current,
+    game: g,
+    legal,
+    dealerSeat,
+    bigBlind: BB,
+    ante: getBlindLevel(blindLevel).ante,
+    log: actionLogRef.current,
+  }, BOT_PROFILES[botStyle ?? "balanced"]);
 
-    actBetRaiseTo("top", Math.max(target, minRaiseTo));
-    return;
+  switch (action.type) {
+    case "FOLD":
+      actFold("top");
+      return;
+    case "CHECK":
+      actCheck("top");
+      return;
+    case "CALL":
+      actCall("top");
+      return;
+    case "BET_RAISE_TO":
+      actBetRaiseTo("top", action.to);
+      return;
   }
-
-  actCall("top");
 }
 
   // opponent takes 10 seconds per decision
@@ -2866,7 +3465,7 @@ if (street === 5 && currentFacingBet(seat)) {
     if (!seatedRole) return;
     if (handResult.status !== "playing") return;
     if (toAct !== "top") return;
-    if (!aiEnabled || gamePin) return;
+    if (!botStyle || gamePin) return;
 
     if (opponentTimerRef.current) window.clearTimeout(opponentTimerRef.current);
 opponentTimerRef.current = window.setTimeout(() => {
@@ -2876,7 +3475,7 @@ opponentTimerRef.current = window.setTimeout(() => {
   // then force AI OFF.
   if (pendingAiOffRef.current) {
     pendingAiOffRef.current = false;
-    setAiEnabled(false);
+    setBotStyle(null);
   }
 }, 1000);
  
@@ -2885,7 +3484,7 @@ opponentTimerRef.current = window.setTimeout(() => {
       opponentTimerRef.current = null;
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-}, [toAct, handResult.status, street, seatedRole, game.bets.top, game.bets.bottom, aiEnabled]);
+}, [toAct, handResult.status, street, seatedRole, game.bets.top, game.bets.bottom, botStyle]);
 
   // settle / advance street
   useEffect(() => {
@@ -2902,6 +3501,25 @@ opponentTimerRef.current = window.setTimeout(() => {
     lastToActAfterAggro,
   ]);
 
+  // All-in runout: deal a street at a time, then show down at the river
+  useEffect(() => {
+    if (multiplayerActive || !runningOut) return;
+    if (handResult.status !== "playing") return;
+
+    const timer = window.setTimeout(() => {
+      if (street < 4) {
+        setStreet(street === 0 ? 3 : 4);
+        return;
+      }
+      setStreet(5);
+      setRunningOut(false);
+      resolveShowdown();
+    }, GAME_CONFIG.RUNOUT_STREET_SECONDS * 1000);
+
+    return () => window.clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [runningOut, street, handResult.status, multiplayerActive]);
+
   useEffect(() => {
   function onKeyDown(e: KeyboardEvent) {
     if (e.key === "ArrowLeft") {
@@ -2924,6 +3542,7 @@ opponentTimerRef.current = window.setTimeout(() => {
 // Capture hand history snapshot when hand ends in multiplayer
 useEffect(() => {
   if (!multiplayerActive || !mpState) return;
+  if (spectating) return; // spectators keep no history
   if (mpState.handResult.status !== "ended") return;
   
   console.log('CAPTURING SNAPSHOT for handId:', mpState.handId);
@@ -2937,7 +3556,11 @@ useEffect(() => {
     ? [displayCards?.[0], displayCards?.[1]]
     : [displayCards?.[2], displayCards?.[3]];
   
-  if (!myCards[0] || !myCards[1] || !oppCards[0] || !oppCards[1]) return;
+  if (!myCards[0] || !myCards[1]) return;
+  
+  // Opponent cards are only in our view if they were shown
+  const knownOppCards: [Card, Card] | null =
+    oppCards[0] && oppCards[1] ? [oppCards[0], oppCards[1]] : null;
   
   // Calculate best 5-card hands if hand went to showdown
   let heroBest5: Card[] | undefined;
@@ -2948,16 +3571,15 @@ useEffect(() => {
   if (mpState.street >= 3 && mpState.handResult.reason === "showdown") {
     const finalBoard = board.slice(0, mpState.street);
     const hero7 = [myCards[0], myCards[1], ...finalBoard];
-    const opp7 = [oppCards[0], oppCards[1], ...finalBoard];
     
     heroBest5 = sortBest5ForDisplay(best5From7(hero7));
-    oppBest5 = sortBest5ForDisplay(best5From7(opp7));
+    heroHandDesc = handDesc(evaluate7(hero7));
     
-    const heroScore = evaluate7(hero7);
-    const oppScore = evaluate7(opp7);
-    
-    heroHandDesc = handDesc(heroScore);
-    oppHandDesc = handDesc(oppScore);
+    if (knownOppCards) {
+      const opp7 = [...knownOppCards, ...finalBoard];
+      oppBest5 = sortBest5ForDisplay(best5From7(opp7));
+      oppHandDesc = handDesc(evaluate7(opp7));
+    }
   }
   
   // Determine if hero and opponent showed by checking action log
@@ -2982,6 +3604,7 @@ useEffect(() => {
   
   const snap: HandLogSnapshot = {
     handNo: mpState.handId,
+    gameSession: mpState.gameSession,
     dealer: mpState.dealerSeat,
     endedStreet: mpState.street,
     endedBoard: board.slice(0, mpState.street),
@@ -2994,9 +3617,9 @@ useEffect(() => {
       ? [myCards[0], myCards[1]]
       : [myCards[1], myCards[0]],
     
-    oppCards: RANK_TO_VALUE[oppCards[0].rank] >= RANK_TO_VALUE[oppCards[1].rank]
-      ? [oppCards[0], oppCards[1]]
-      : [oppCards[1], oppCards[0]],
+    oppCards: knownOppCards && (RANK_TO_VALUE[knownOppCards[0].rank] >= RANK_TO_VALUE[knownOppCards[1].rank]
+      ? knownOppCards
+      : [knownOppCards[1], knownOppCards[0]]),
     
     heroShown,
     oppShown,
@@ -3008,11 +3631,15 @@ useEffect(() => {
     oppBest5,
     heroHandDesc,
     oppHandDesc,
+
+    blindLevel: mpState.blindLevel,
+    playedAt: Date.now(),
+    oppStyle: mySeat === "bottom" ? mpState.topSeatBot ?? undefined : undefined,
   };
   
   setHandLogHistory((prev) => {
     // Update existing snapshot if it exists for this hand (to capture show actions), otherwise add new one
-    if (prev.length > 0 && prev[0]?.handNo === snap.handNo) {
+    if (prev.length > 0 && prev[0]?.handNo === snap.handNo && prev[0]?.gameSession === snap.gameSession) {
       // Only update if the action log actually changed (has more actions)
       const prevActionCount = prev[0].log.length;
       const newActionCount = snap.log.length;
@@ -3032,7 +3659,14 @@ useEffect(() => {
     sessionStorage.setItem('headsup_handHistory', JSON.stringify(newHistory));
     return newHistory;
   });
-}, [mpState?.handResult.status, mpState?.actionLog?.length, multiplayerActive, mySeat, displayCards, board]);
+
+  // Persist to Supabase (again if a Show Hand adds to the log)
+  const saveKey = `${snap.gameSession}:${snap.handNo}:${snap.log.length}`;
+  if (gameId && sbUser?.id && savedHandKeyRef.current !== saveKey) {
+    savedHandKeyRef.current = saveKey;
+    saveHand(gameId, sbUser.id, mySeat, snap, mpState.handResult);
+  }
+}, [mpState?.handResult.status, mpState?.actionLog?.length, multiplayerActive, spectating, mySeat, displayCards, board, gameId, sbUser?.id]);
 
 // auto next hand 5 seconds after hand ends
 useEffect(() => {
@@ -3051,6 +3685,7 @@ useEffect(() => {
     
     const snap: HandLogSnapshot = {
       handNo: mpState.handId,
+      gameSession: mpState.gameSession,
       dealer: mpState.dealerSeat,
       endedStreet: endedSt,
       endedBoard: board.slice(0, endedSt),
@@ -3063,11 +3698,14 @@ useEffect(() => {
       oppShown: mpState.oppRevealed,
       heroStartStack: mpState.handStartStacks[mySeat],
       oppStartStack: mpState.handStartStacks[mySeat === "bottom" ? "top" : "bottom"],
+      blindLevel: mpState.blindLevel,
+      playedAt: Date.now(),
+      oppStyle: mySeat === "bottom" ? mpState.topSeatBot ?? undefined : undefined,
     };
     
     setHandLogHistory((prev: HandLogSnapshot[]) => {
       // Don't add duplicate snapshots for the same hand
-if (prev.length > 0 && prev[0]?.handNo === snap.handNo) return prev;
+if (prev.length > 0 && prev[0]?.handNo === snap.handNo && prev[0]?.gameSession === snap.gameSession) return prev;
 console.log('Saving hand history snapshot:', snap.handNo + 1);
 return [snap, ...prev].slice(0, 30);
     });
@@ -3099,10 +3737,9 @@ return [snap, ...prev].slice(0, 30);
 
     if (currentState.game.stacks.top > 0 && currentState.game.stacks.bottom > 0) {
       mpHost.startHand();
-      const newState = JSON.parse(JSON.stringify(mpHost.getState()));
-      setMpState(newState);
+      setMpState(mpHost.getStateFor("bottom"));
       // Save state for reconnection
-      sessionStorage.setItem('headsup_hostState', JSON.stringify(newState));
+      sessionStorage.setItem('headsup_hostState', JSON.stringify(mpHost.getState()));
     }
     return;
   }
@@ -3122,6 +3759,13 @@ return [snap, ...prev].slice(0, 30);
   // eslint-disable-next-line react-hooks/exhaustive-deps
 }, [multiplayerActive, isHost, mpHost, mpState?.handResult.status, handResult.status, mySeat, cards]);
 
+// Clear a rejected-action message after a few seconds or once the state moves on
+useEffect(() => {
+  if (!actionRejectedReason) return;
+  const t = window.setTimeout(() => setActionRejectedReason(null), 4000);
+  return () => window.clearTimeout(t);
+}, [actionRejectedReason, mpState?.actionSequence]);
+
 // Always clear betSize when it becomes our turn or when street/betting changes
 useEffect(() => {
   if (displayToAct !== mySeat) return;
@@ -3407,17 +4051,10 @@ if (isReconnecting) {
   );
 }
 
-/* ---------- title screen ---------- */
-
-if (screen === "role") {
-
-  const baseButton =
-    "w-full rounded-3xl border px-6 font-semibold transition-colors duration-200 hover:bg-gray-50 hover:border-gray-300";
-
-  const titleBusy = creatingGame || isCreatingPin;
-  const disabledLinkClass = "opacity-40 cursor-not-allowed pointer-events-none";
+/* ---------- game settings (shown before creating a PIN game) ---------- */
 
-const createGame = async () => {
+const confirmGameSettings = async () => {
+  setGameSettingsOpen(false);
   if (creatingGame) return;
 
   setCreatingGame(true);
@@ -3432,6 +4069,31 @@ const createGame = async () => {
   }
 };
 
+const gameSettingsModal = (
+  <GameSettingsModal
+    open={gameSettingsOpen}
+    settings={gameSettings}
+    onChange={setGameSettings}
+    onCancel={() => setGameSettingsOpen(false)}
+    onConfirm={confirmGameSettings}
+  />
+);
+
+/* ---------- title screen ---------- */
+
+if (screen === "role") {
+
+  const baseButton =
+    "w-full rounded-3xl border px-6 font-semibold transition-colors duration-200 hover:bg-gray-50 hover:border-gray-300";
+
+  const titleBusy = creatingGame || isCreatingPin;
+  const disabledLinkClass = "opacity-40 cursor-not-allowed pointer-events-none";
+
+const createGame = () => {
+  if (creatingGame) return;
+  setGameSettingsOpen(true);
+};
+
 const joinGame = () => {
   if (isCreatingPin) return;
 
@@ -3574,6 +4236,11 @@ const joinGame = () => {
       Game PIN: <span className="font-bold">{gamePin}</span>
     </div>
 
+    <PlayBotControl
+      onPlay={playPinGameVsBot}
+      buttonClass="rounded-xl border px-3 py-1 text-xs font-semibold transition-colors hover:bg-gray-50"
+    />
+
     <button
       onClick={clearPin}
       className={`${baseButton} py-4 min-[1536px]:max-[1650px]:py-3 text-base min-[1536px]:max-[1650px]:text-xs max-w-sm min-[1536px]:max-[1650px]:max-w-[280px]`}
@@ -3613,6 +4280,16 @@ const joinGame = () => {
   Join game
 </button>
 
+<button
+  onClick={watchPinGame}
+  disabled={joinPinInput.length !== 4}
+  className={`${baseButton} py-4 min-[1536px]:max-[1650px]:py-3 text-base min-[1536px]:max-[1650px]:text-xs max-w-sm min-[1536px]:max-[1650px]:max-w-[280px] ${
+    joinPinInput.length !== 4 ? "opacity-50 pointer-events-none" : ""
+  }`}
+>
+  Watch game
+</button>
+
 <button
   onClick={clearPin}
   className={`${baseButton} py-4 min-[1536px]:max-[1650px]:py-3 text-base min-[1536px]:max-[1650px]:text-xs max-w-sm min-[1536px]:max-[1650px]:max-w-[280px]`}
@@ -3661,6 +4338,7 @@ const joinGame = () => {
   )}
 </div>
       </div>
+      {gameSettingsModal}
     </main>
   );
 }
@@ -4039,6 +4717,10 @@ if (screen === "dashboard" && seatedRole === "student") {
       >
         Cancel
       </button>
+      <PlayBotControl
+        onPlay={playPinGameVsBot}
+        buttonClass="rounded-xl border px-3 py-1 text-xs font-semibold transition-colors hover:bg-gray-50"
+      />
     </div>
   )}
 
@@ -4067,6 +4749,14 @@ if (screen === "dashboard" && seatedRole === "student") {
       >
         Join
       </button>
+      <button
+        type="button"
+        onClick={() => watchPinGame()}
+        disabled={joinPinInput.length !== 4}
+        className="rounded-xl border px-3 py-1 text-xs font-semibold transition-colors hover:bg-gray-50 disabled:opacity-50"
+      >
+        Watch
+      </button>
       <button
         type="button"
         onClick={() => {
@@ -4085,11 +4775,7 @@ if (screen === "dashboard" && seatedRole === "student") {
     <>
       <button
         type="button"
-        onClick={async () => {
-          setCreatingGame(true);
-          await createPinGame();
-          setCreatingGame(false);
-        }}
+        onClick={() => setGameSettingsOpen(true)}
         disabled={creatingGame}
         className="rounded-xl border px-3 py-1 text-xs font-semibold transition-colors hover:bg-gray-50 disabled:opacity-50"
       >
@@ -4108,6 +4794,20 @@ if (screen === "dashboard" && seatedRole === "student") {
     </>
   )}
 
+  <button
+    type="button"
+    onClick={() => openReplayer([...handLogHistory].reverse())}
+    className="rounded-xl border px-4 py-1.5 text-sm font-semibold transition-colors hover:bg-gray-50"
+  >
+    Hand replayer
+  </button>
+  <button
+    type="button"
+    onClick={openPastGames}
+    className="rounded-xl border px-4 py-1.5 text-sm font-semibold transition-colors hover:bg-gray-50"
+  >
+    Past games
+  </button>
  <button
     type="button"
     onClick={() => setScreen("connections")}
@@ -4174,6 +4874,9 @@ if (screen === "dashboard" && seatedRole === "student") {
         {studentProfile.year} {" • "}
         {studentProfile.major}
       </span>
+      {lifetimeStatsText && (
+        <span className="text-xs font-normal text-black/60 tabular-nums">{lifetimeStatsText}</span>
+      )}
     </div>
 
     {otherStudents.map((s, i) => (
@@ -4302,6 +5005,7 @@ if (screen === "dashboard" && seatedRole === "student") {
 
         </div>
       </div>
+      {gameSettingsModal}
     </main>
   );
 }
@@ -4340,6 +5044,10 @@ if (screen === "professionalDashboard" && seatedRole === "professional") {
       >
         Cancel
       </button>
+      <PlayBotControl
+        onPlay={playPinGameVsBot}
+        buttonClass="rounded-xl border px-3 py-1 text-xs font-semibold transition-colors hover:bg-gray-50"
+      />
     </div>
   )}
 
@@ -4368,6 +5076,14 @@ if (screen === "professionalDashboard" && seatedRole === "professional") {
       >
         Join
       </button>
+      <button
+        type="button"
+        onClick={() => watchPinGame()}
+        disabled={joinPinInput.length !== 4}
+        className="rounded-xl border px-3 py-1 text-xs font-semibold transition-colors hover:bg-gray-50 disabled:opacity-50"
+      >
+        Watch
+      </button>
       <button
         type="button"
         onClick={() => {
@@ -4386,11 +5102,7 @@ if (screen === "professionalDashboard" && seatedRole === "professional") {
     <>
       <button
         type="button"
-        onClick={async () => {
-          setCreatingGame(true);
-          await createPinGame();
-          setCreatingGame(false);
-        }}
+        onClick={() => setGameSettingsOpen(true)}
         disabled={creatingGame}
         className="rounded-xl border px-3 py-1 text-xs font-semibold transition-colors hover:bg-gray-50 disabled:opacity-50"
       >
@@ -4409,6 +5121,20 @@ if (screen === "professionalDashboard" && seatedRole === "professional") {
     </>
   )}
 
+  <button
+    type="button"
+    onClick={() => openReplayer([...handLogHistory].reverse())}
+    className="rounded-xl border px-4 py-1.5 text-sm font-semibold transition-colors hover:bg-gray-50"
+  >
+    Hand replayer
+  </button>
+  <button
+    type="button"
+    onClick={openPastGames}
+    className="rounded-xl border px-4 py-1.5 text-sm font-semibold transition-colors hover:bg-gray-50"
+  >
+    Past games
+  </button>
   <button
     type="button"
     onClick={() => setScreen("connections")}
@@ -4474,6 +5200,9 @@ if (screen === "professionalDashboard" && seatedRole === "professional") {
         {studentProfile.company} {" • "}
         {studentProfile.workTitle}
       </span>
+      {lifetimeStatsText && (
+        <span className="text-xs font-normal text-black/60 tabular-nums">{lifetimeStatsText}</span>
+      )}
     </div>
 
     {otherProfessionals.map((p, i) => (
@@ -4601,6 +5330,68 @@ if (screen === "professionalDashboard" && seatedRole === "professional") {
 
         </div>
       </div>
+      {gameSettingsModal}
+    </main>
+  );
+}
+
+if (screen === "replayer") {
+  return (
+    <HandReplayer
+      key={replayLoadId}
+      hands={replayHands}
+      importNote={replayImportNote}
+      onImportFile={importHandHistoryFile}
+      onClose={() => setScreen(replayReturnScreen)}
+    />
+  );
+}
+
+if (screen === "pastGames") {
+  return (
+    <main className="flex min-h-screen justify-center bg-black px-6 py-6">
+      <div className="w-full max-w-3xl flex flex-col">
+        <div className="mb-4 flex items-center justify-center gap-4">
+          <h1 className="text-3xl font-bold">Past games</h1>
+          <button
+            type="button"
+            onClick={() => setScreen(pastGamesReturnScreen)}
+            className="rounded-xl border px-4 py-1.5 text-sm font-semibold transition-colors hover:bg-gray-50"
+          >
+            Back
+          </button>
+        </div>
+
+        <p className="mb-8 text-center text-sm text-white/60">
+          Replay the hands of your PIN games
+        </p>
+
+        <div className="rounded-3xl border bg-white p-6">
+          {pastGames === null ? (
+            <div className="py-8 text-center text-sm text-black/50">Loading...</div>
+          ) : pastGames.length === 0 ? (
+            <div className="py-8 text-center text-sm text-black/50">
+              No saved games yet. Hands of PIN games are saved as you play.
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {pastGames.map((game) => (
+                <button
+                  key={game.gameId}
+                  type="button"
+                  onClick={() => replayPastGame(game)}
+                  className="flex w-full items-center justify-between rounded-xl border px-4 py-3 text-left text-sm text-black transition-colors hover:bg-gray-50"
+                >
+                  <span className="font-semibold">{new Date(game.firstPlayedAt).toLocaleString()}</span>
+                  <span className="text-black/60">
+                    {game.handCount} hand{game.handCount === 1 ? "" : "s"}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
     </main>
   );
 }
@@ -4967,51 +5758,26 @@ if (screen === "editProfile") {
 
  const dealerChipTop =
     "absolute -bottom-3 -right-3 min-[1536px]:max-[1650px]:-bottom-2 min-[1536px]:max-[1650px]:-right-3 flex h-10 w-10 min-[1536px]:max-[1650px]:h-8 min-[1536px]:max-[1650px]:w-8 items-center justify-center rounded-full border bg-white text-[20px] min-[1536px]:max-[1650px]:text-[16px] font-bold text-black shadow-sm";
+  const shotClockTop =
+    "absolute -top-3 -left-3 min-[1536px]:max-[1650px]:-top-2 min-[1536px]:max-[1650px]:-left-3 h-11 w-11 min-[1536px]:max-[1650px]:h-9 min-[1536px]:max-[1650px]:w-9";
+  const shotClockBottom =
+    "absolute -bottom-3 -right-3 min-[1536px]:max-[1650px]:-bottom-2 min-[1536px]:max-[1650px]:-right-3 h-11 w-11 min-[1536px]:max-[1650px]:h-9 min-[1536px]:max-[1650px]:w-9";
   const dealerChipBottom =
     "absolute -top-3 -left-3 min-[1536px]:max-[1650px]:-top-2 min-[1536px]:max-[1650px]:-left-3 flex h-10 w-10 min-[1536px]:max-[1650px]:h-8 min-[1536px]:max-[1650px]:w-8 items-center justify-center rounded-full border bg-white text-[20px] min-[1536px]:max-[1650px]:text-[16px] font-bold text-black shadow-sm";
 
   const streetLabel = streetNameFromCount(street);
 
-  const facingBetBottom = displayGame.bets[oppActualSeat] > displayGame.bets[myActualSeat];
-  // Cap call amount to my remaining stack
-  const bottomCallAmt = roundToHundredth(
-    Math.min(
-      Math.max(0, displayGame.bets[oppActualSeat] - displayGame.bets[myActualSeat]),
-      displayGame.stacks[myActualSeat]
-    )
-  );
-
-  const effectiveLastRaiseSize = multiplayerActive && mpState ? mpState.lastRaiseSize : lastRaiseSize;
-  
-  // When not facing a bet/raise
-  const bottomMinRaise = facingBetBottom 
-    ? roundToHundredth(displayGame.bets[oppActualSeat] + effectiveLastRaiseSize)
-    : (displayStreet === 0 && displayGame.bets[myActualSeat] > 0 && displayGame.bets[oppActualSeat] > 0)
-      ? roundToHundredth(Math.max(displayGame.bets[myActualSeat], displayGame.bets[oppActualSeat]) + BB)
-      : BB;
-  
-  // Cap max bet to what opponent can actually call (effective stack)
-  const bottomMaxTo = roundToHundredth(
-    Math.min(
-      displayGame.bets[myActualSeat] + displayGame.stacks[myActualSeat],  // My total chips
-      displayGame.bets[oppActualSeat] + displayGame.stacks[oppActualSeat]  // Opponent's total chips
-    )
-  );
-
-  const defaultTo = facingBetBottom
-    ? bottomMinRaise
-    : roundToHundredth((displayGame.pot + displayGame.bets.top + displayGame.bets.bottom) * 0.5);
+  // Action bar values all come from legalActions
+  const facingBetBottom = !!myLegalActions?.canCall;
+  const bottomCallAmt = myLegalActions?.callAmount ?? 0;
+  const bottomMinRaise = myLegalActions?.minRaiseTo ?? 0;
+  // Capped to what the opponent can actually call (effective stack)
+  const bottomMaxTo = myLegalActions?.maxRaiseTo ?? 0;
 
-  // Opening action logic
-  const isOpeningAction = displayGame.bets[myActualSeat] === 0 && displayGame.bets[oppActualSeat] === 0;
-  const effectiveBetSize = betSize === "" ? bottomMinRaise : betSize;
-  const safeBetSize = Math.max(effectiveBetSize, bottomMinRaise);
-  
-  // Display value: preflop opening defaults to 2BB, postflop opening defaults to 1BB
-  const openingDefault = (displayStreet === 0 && isOpeningAction) ? 2 : (isOpeningAction && displayStreet > 0 ? 1 : bottomMinRaise);
+  // Bet size shown on the Bet/Raise button: typed amount, or the min-raise by default
   const displayBetSize = (betSize === "" || betSize < bottomMinRaise) 
-    ? openingDefault
-    : betSize;
+    ? bottomMinRaise
+    : Math.min(betSize, bottomMaxTo);
 
   const heroPosLabel = viewingSnapshot
   ? viewingSnapshot.heroPos
@@ -5168,32 +5934,26 @@ const displayedHistoryBoard = viewingSnapshot
 
       <main className="relative flex items-center justify-center bg-black px-6 py-1 overflow-y-auto" style={{ minHeight: '100vh' }}>
      {/* Play Again UI - only show in multiplayer when game is over and opponent hasn't quit */}
-      {multiplayerActive && mpState?.gameOver && !opponentQuit && (
+      {multiplayerActive && !spectating && mpState?.gameOver && !opponentQuit && (
         <div className="absolute top-4 left-1/2 -translate-x-1/2 z-50">
           {/* State 1: Neither player has requested - show Play Again button */}
           {!playAgainRequested && !opponentWantsPlayAgain && (
             <button
               onClick={() => {
+                // The AI always wants another game
+                if (isHost && mpHost && mpState.topSeatBot) {
+                  setHandLogHistory([]);
+                  setLogViewOffset(0);
+                  mpHost.resetGame();
+                  setMpState(mpHost.getStateFor("bottom"));
+                  return;
+                }
                 setPlayAgainRequested(true);
                 // Send broadcast to opponent via the existing channel
                 if (isHost && mpHost) {
-                  mpHost['channel'].send({
-                    type: "broadcast",
-                    event: "mp",
-                    payload: {
-                      event: "PLAY_AGAIN_REQUEST",
-                      sender: sbUser?.id ?? 'host',
-                    },
-                  });
+                  sendMpMessage(mpHost.channel, sbUser?.id ?? 'host', { event: "PLAY_AGAIN_REQUEST" });
                 } else if (mpJoiner) {
-                  mpJoiner['channel'].send({
-                    type: "broadcast",
-                    event: "mp",
-                    payload: {
-                      event: "PLAY_AGAIN_REQUEST",
-                      sender: sbUser?.id ?? 'joiner',
-                    },
-                  });
+                  sendMpMessage(mpJoiner.channel, sbUser?.id ?? 'joiner', { event: "PLAY_AGAIN_REQUEST" });
                 }
               }}
               className="rounded-2xl min-[1536px]:max-[1650px]:rounded-xl border border-black bg-white px-6 py-2 min-[1536px]:max-[1650px]:px-4 min-[1536px]:max-[1650px]:py-1.5 text-sm min-[1536px]:max-[1650px]:text-xs font-semibold text-black shadow-sm hover:bg-gray-50"
@@ -5219,30 +5979,16 @@ const displayedHistoryBoard = viewingSnapshot
                 onClick={() => {
                   // Send accept to opponent
                   if (isHost && mpHost) {
-                    mpHost['channel'].send({
-                      type: "broadcast",
-                      event: "mp",
-                      payload: {
-                        event: "PLAY_AGAIN_ACCEPT",
-                        sender: sbUser?.id ?? 'host',
-                      },
-                    });
+                    sendMpMessage(mpHost.channel, sbUser?.id ?? 'host', { event: "PLAY_AGAIN_ACCEPT" });
                     // Host resets the game immediately
                     setPlayAgainRequested(false);
                     setOpponentWantsPlayAgain(false);
                     setHandLogHistory([]);
                     setLogViewOffset(0);
                     mpHost.resetGame();
-                    setMpState(JSON.parse(JSON.stringify(mpHost.getState())));
+                    setMpState(mpHost.getStateFor("bottom"));
                   } else if (mpJoiner) {
-                    mpJoiner['channel'].send({
-                      type: "broadcast",
-                      event: "mp",
-                      payload: {
-                        event: "PLAY_AGAIN_ACCEPT",
-                        sender: sbUser?.id ?? 'joiner',
-                      },
-                    });
+                    sendMpMessage(mpJoiner.channel, sbUser?.id ?? 'joiner', { event: "PLAY_AGAIN_ACCEPT" });
                     // Joiner just clears states - will receive new state from host
                     setPlayAgainRequested(false);
                     setOpponentWantsPlayAgain(false);
@@ -5283,6 +6029,7 @@ const displayedHistoryBoard = viewingSnapshot
 
 {/* Show Hand Button */}
 {displayHandResult.status === "ended" && 
+ !spectating &&
  canIShow &&
  !didIShow && 
  !((multiplayerActive && mpState?.gameOver) || (!multiplayerActive && gameOver)) && (
@@ -5291,7 +6038,7 @@ const displayedHistoryBoard = viewingSnapshot
       onClick={() => {
         if (multiplayerActive && isHost && mpHost) {
           mpHost.showHand(mySeat);
-          setMpState(JSON.parse(JSON.stringify(mpHost.getState())));
+          setMpState(mpHost.getStateFor(mySeat));
         } else if (multiplayerActive && mpJoiner) {
           mpJoiner.sendShowHand(mySeat);
         } else {
@@ -5303,7 +6050,7 @@ const displayedHistoryBoard = viewingSnapshot
           }
           
           if (youC && youD) {
-            logAction(mySeat, `Shows ${cardStr(youC)} ${cardStr(youD)}`);
+            logAction(mySeat, { kind: "show", cards: [youC, youD] });
           }
         }
       }}
@@ -5326,12 +6073,18 @@ const displayedHistoryBoard = viewingSnapshot
             <div>
               <h1 className="text-2xl min-[1536px]:max-[1650px]:text-xl font-bold text-white">HeadsUp</h1>
               <div className="text-sm min-[1536px]:max-[1650px]:text-xs text-white opacity-80 tabular-nums">
-                Pot: {formatBB(roundToHundredth(displayGame.pot + displayGame.bets.top + displayGame.bets.bottom))}{" "}
+                Pot: {formatBB(displayGame.pot + displayGame.bets.top + displayGame.bets.bottom)}{" "}
                 BB <span className="opacity-60">·</span> {streetLabel}{" "}
                 <span className="opacity-60">·</span>{" "}
                 <span className="opacity-90">
   {opponentQuit
-    ? "Opponent Quit!"
+    ? (spectating ? "A player left" : "Opponent Quit!")
+    : spectating
+    ? displayHandResult.status === "playing"
+      ? `${displayToAct === mySeat ? heroSeatName : oppSeatName} thinking…`
+      : mpState?.gameOver
+        ? `Game over — ${displayGame.stacks[myActualSeat] <= 0 ? oppSeatName : heroSeatName} wins`
+        : "Hand ended"
     : displayHandResult.status === "playing"
     ? displayToAct === mySeat
       ? "Your turn"
@@ -5346,16 +6099,58 @@ const displayedHistoryBoard = viewingSnapshot
               {handResult.message ? (
                 <div className="mt-1 text-sm min-[1536px]:max-[1650px]:text-xs text-white opacity-90">{handResult.message}</div>
               ) : null}
+              {multiplayerActive && mpState ? (
+                <div className="mt-1 text-xs min-[1536px]:max-[1650px]:text-[10px] text-white opacity-60">
+                  {describeGameSettings(mpState.settings)}
+                  {spectating ? " · spectating" : mpState.spectatorCount > 0 ? ` · ${mpState.spectatorCount} watching` : ""}
+                </div>
+              ) : null}
+              {pushFoldHint ? (
+                <div className="mt-1 text-sm min-[1536px]:max-[1650px]:text-xs text-white opacity-90">{pushFoldHint}</div>
+              ) : null}
             </div>
 
             <div className="flex items-center gap-4 min-[1536px]:max-[1650px]:gap-3">
 
+  <button
+    type="button"
+    onClick={() => setShowPushFoldChart((on) => !on)}
+    className="text-sm min-[1536px]:max-[1650px]:text-xs text-white underline opacity-80 hover:opacity-100"
+  >
+    {showPushFoldChart ? "Hide push/fold chart" : "Push/fold chart"}
+  </button>
+
+  {!gamePin && !multiplayerActive && (
+    <label className="flex items-center gap-2 text-sm min-[1536px]:max-[1650px]:text-xs text-white opacity-80">
+      AI opponent
+      <select
+        value={botStyle ?? ""}
+        onChange={(e) => {
+          const style = (e.target.value || null) as BotStyle | null;
+          // Turned off on the bot's turn: let it finish this action first
+          if (!style && botStyle && toAct === "top" && handResult.status === "playing") {
+            pendingAiOffRef.current = true;
+            return;
+          }
+          pendingAiOffRef.current = false;
+          setBotStyle(style);
+        }}
+        className="rounded-lg border border-white/20 bg-black/40 px-2 py-0.5 text-white"
+      >
+        <option value="">Off</option>
+        {BOT_STYLES.map((style) => (
+          <option key={style} value={style}>{BOT_PROFILES[style].label}</option>
+        ))}
+      </select>
+    </label>
+  )}
+
   {studentProfile.email && (
   <button
 type="button"
 onClick={() => {
-  if (opponentQuit) {
-    // Opponent already quit, go directly to dashboard
+  if (opponentQuit || spectating) {
+    // Opponent already quit (or just watching), go directly to dashboard
     if (mpHost) {
       mpHost.destroy();
       setMpHost(null);
@@ -5394,8 +6189,8 @@ className="text-sm min-[1536px]:max-[1650px]:text-xs text-white underline opacit
   <button
     type="button"
     onClick={() => {
-      if (opponentQuit) {
-        // Opponent already quit, go directly to title screen
+      if (opponentQuit || spectating) {
+        // Opponent already quit (or just watching), go directly to title screen
         if (mpHost) {
           mpHost.destroy();
           setMpHost(null);
@@ -5436,7 +6231,7 @@ className="text-sm min-[1536px]:max-[1650px]:text-xs text-white underline opacit
 
 {opponentQuit && (
 <div className="text-sm min-[1536px]:max-[1650px]:text-xs text-white opacity-90">
-      Opponent Quit, Go To Title Screen
+      {spectating ? "A player left, Go To Title Screen" : "Opponent Quit, Go To Title Screen"}
 </div>
   )}
 
@@ -5474,8 +6269,8 @@ className="text-sm min-[1536px]:max-[1650px]:text-xs text-white underline opacit
 
     <div className="text-xs min-[1536px]:max-[1650px]:text-[10px] font-normal text-white/70 tabular-nums whitespace-nowrap">
       {viewingSnapshot
-        ? `You (${viewingSnapshot.heroPos}) ${formatBB(viewingSnapshot.heroStartStack)}bb · Opponent (${viewingSnapshot.oppPos}) ${formatBB(viewingSnapshot.oppStartStack)}bb`
-        : `You (${heroPosLabel}) ${formatBB(heroStartStack)}bb · Opponent (${oppPosLabel}) ${formatBB(oppStartStack)}bb`}
+        ? `You (${viewingSnapshot.heroPos}) ${formatBB(viewingSnapshot.heroStartStack)}bb · ${oppLogName} (${viewingSnapshot.oppPos}) ${formatBB(viewingSnapshot.oppStartStack)}bb`
+        : `${heroSeatName} (${heroPosLabel}) ${formatBB(heroStartStack)}bb · ${oppLogName} (${oppPosLabel}) ${formatBB(oppStartStack)}bb`}
     </div>
   </div>
 
@@ -5484,6 +6279,19 @@ className="text-sm min-[1536px]:max-[1650px]:text-xs text-white underline opacit
   {logViewOffset === 0
     ? `Hand #${(multiplayerActive && mpState ? mpState.handId : handId) + 1}`
     : `Hand #${(handLogHistory[logViewOffset - 1]?.handNo ?? 0) + 1}`}
+  {/* Joiner only: did the revealed deal match the host's commitment? (Not a fair-shuffle check: the host shuffles alone) */}
+  {logViewOffset === 0 && multiplayerActive && mpState && dealVerification?.handId === mpState.handId && (
+    <span
+      className={dealVerification.verified ? "ml-2 text-green-400" : "ml-2 text-red-400"}
+      title={
+        dealVerification.verified
+          ? "The cards you saw match what the host committed to at the start of the hand. The host shuffles on its own, so this doesn't prove the shuffle was fair."
+          : "The cards you saw don't match what the host committed to at the start of the hand."
+      }
+    >
+      {dealVerification.verified ? "Cards unchanged ✓" : "Deal check failed"}
+    </span>
+  )}
 </div>
 </div>
 
@@ -5512,10 +6320,10 @@ className="text-sm min-[1536px]:max-[1650px]:text-xs text-white underline opacit
         <div>
           Opponent:{" "}
           {viewingSnapshot ? (
-            viewingSnapshot.oppShown
+            viewingSnapshot.oppShown && viewingSnapshot.oppCards
               ? <>{renderActionText(`${cardStr(viewingSnapshot.oppCards[0])} ${cardStr(viewingSnapshot.oppCards[1])}`)}</>
               : viewingSnapshot.log.some(
-                  (it) => it.seat === oppActualSeat && /fold/i.test(it.text)
+                  (it) => it.seat === oppActualSeat && it.event.kind === "fold"
                 )
               ? "Folded"
               : "Mucked"
@@ -5532,7 +6340,7 @@ className="text-sm min-[1536px]:max-[1650px]:text-xs text-white underline opacit
               || didOppShow
             ) && oppA && oppB
               ? renderActionText(`${cardStr(oppA)} ${cardStr(oppB)}`)
-              : displayActionLog.some((it) => it.seat === oppActualSeat && /fold/i.test(it.text))
+              : displayActionLog.some((it) => it.seat === oppActualSeat && it.event.kind === "fold")
               ? "Folded"
               : "Mucked"
           )}
@@ -5596,11 +6404,11 @@ className="text-sm min-[1536px]:max-[1650px]:text-xs text-white underline opacit
             className="text-center font-semibold text-white leading-none min-[1536px]:max-[1650px]:text-xs"
             style={{ marginLeft: "-56px" }}
           >
-            {a.seat === myActualSeat ? `You (${heroPosLabel})` : `Opponent (${oppPosLabel})`}
+            {a.seat === myActualSeat ? `${heroSeatName} (${heroPosLabel})` : `${oppLogName} (${oppPosLabel})`}
           </div>
 
           <div className="text-center text-white/90 tabular-nums break-words leading-none min-[1536px]:max-[1650px]:text-xs">
-            {renderActionText(a.text)}
+            {renderActionText(actionLogText(a.event))}
           </div>
         </div>
       ))}
@@ -5608,6 +6416,39 @@ className="text-sm min-[1536px]:max-[1650px]:text-xs text-white underline opacit
   </div>
 )}
 
+{/* Hand history export */}
+{handLogHistory.length > 0 && (
+  <div className="mt-3 flex gap-2 text-xs min-[1536px]:max-[1650px]:text-[10px]">
+    <button
+      type="button"
+      onClick={() => downloadHandHistory("hand")}
+      disabled={!exportableSnapshot}
+      className="rounded-lg border border-white/20 bg-white/5 px-3 py-1.5 text-white/80 transition-colors hover:bg-white/10 disabled:opacity-40"
+    >
+      Export hand
+    </button>
+    <button
+      type="button"
+      onClick={() => downloadHandHistory("session")}
+      className="rounded-lg border border-white/20 bg-white/5 px-3 py-1.5 text-white/80 transition-colors hover:bg-white/10"
+    >
+      Export session
+    </button>
+    {(!multiplayerActive || mpState?.gameOver) && (
+      <button
+        type="button"
+        onClick={() => openReplayer([...handLogHistory].reverse())}
+        className="rounded-lg border border-white/20 bg-white/5 px-3 py-1.5 text-white/80 transition-colors hover:bg-white/10"
+      >
+        Replay
+      </button>
+    )}
+  </div>
+)}
+{handLogHistory.length > 0 && (
+  <StatsPanel hero={matchStats.hero} opp={matchStats.opp} oppName={opponentName || "Opponent"} />
+)}
+
 </div>
 
             {/* CENTER: TABLE */}
@@ -5615,34 +6456,29 @@ className="text-sm min-[1536px]:max-[1650px]:text-xs text-white underline opacit
               {/* TOP SEAT (Opponent) */}
               <div className="relative h-[260px] w-[216px] min-[1536px]:max-[1650px]:h-[200px] min-[1536px]:max-[1650px]:w-[170px] -translate-y-6 min-[1536px]:max-[1650px]:-translate-y-15 rounded-3xl border border-white/20 bg-black/50 text-center">
                 {!amIDealer && <div className={dealerChipTop}>D</div>}
+                {displayActionClock?.seat === oppActualSeat && (
+                  <ShotClock clock={displayActionClock} timerSeconds={displayActionTimerSeconds} className={shotClockTop} />
+                )}
+                {runoutKey && (
+                  <RunoutEquity streets={runoutStreets} hand={1} className="absolute left-full top-1/2 ml-4 -translate-y-1/2 whitespace-nowrap text-left" />
+                )}
 
                 <div className="absolute -bottom-14 min-[1536px]:max-[1650px]:-bottom-10 left-1/2 -translate-x-1/2">
                   <BetChip amount={oppBet} label={oppLabel} />
                 </div>
 
                 <div className="flex h-full flex-col justify-center">
-                  <div className="-mt-3 min-[1536px]:max-[1650px]:-mt-2 text-sm min-[1536px]:max-[1650px]:text-xs uppercase text-white opacity-60">{opponentName || "Opponent"}</div>
+                  <div className="-mt-3 min-[1536px]:max-[1650px]:-mt-2 text-sm min-[1536px]:max-[1650px]:text-xs uppercase text-white opacity-60">{oppSeatName}</div>
                   <div className="mt-2 min-[1536px]:max-[1650px]:mt-1 text-sm min-[1536px]:max-[1650px]:text-xs text-white">
                     Stack:{" "}
                     <span className="font-semibold tabular-nums">{formatBB(oppStack)}bb</span>
                   </div>
 
                   <div className="mt-4 min-[1536px]:max-[1650px]:mt-2 flex justify-center gap-3 min-[1536px]:max-[1650px]:gap-2">
-                    {oppA && oppB ? (
-                      // When viewing history, use snapshot's oppShown; otherwise use live state
-                      (viewingSnapshot 
-                        ? viewingSnapshot.oppShown 
-                        : (displayHandResult.status === "ended" && (
-                            // Showdown: check if opponent was required to show
-                            (displayHandResult.reason === "showdown" && (
-                              mySeat === "bottom" 
-                                ? displayOppRevealed
-                                : !displayYouMucked
-                            ))
-                            // OR opponent clicked Show Hand button
-                            || didOppShow
-                          ))
-                      ) ? (
+                    {viewingSnapshot || (displayCards && ((youC && youD) || spectating)) ? (
+                      // When viewing history, use snapshot's oppShown; otherwise use live state.
+                      // In multiplayer, unshown opponent cards are null in our view and stay face down.
+                      oppA && oppB && oppCardsFaceUp ? (
   <>
     <CardTile card={oppA} />
     <CardTile card={oppB} />
@@ -5671,14 +6507,22 @@ className="text-sm min-[1536px]:max-[1650px]:text-xs text-white underline opacit
               {/* BOTTOM SEAT (You) */}
               <div className="relative h-[260px] w-[216px] min-[1536px]:max-[1650px]:h-[200px] min-[1536px]:max-[1650px]:w-[170px] -translate-y-6 min-[1536px]:max-[1650px]:-translate-y-3 rounded-3xl border border-white/20 bg-black/50 text-center">
                 {amIDealer && <div className={dealerChipBottom}>D</div>}
+                {displayActionClock?.seat === myActualSeat && (
+                  <ShotClock clock={displayActionClock} timerSeconds={displayActionTimerSeconds} className={shotClockBottom} />
+                )}
+                {runoutKey && (
+                  <RunoutEquity streets={runoutStreets} hand={0} className="absolute left-full top-1/2 ml-4 -translate-y-1/2 whitespace-nowrap text-left" />
+                )}
 
                 <div className="absolute -top-14 min-[1536px]:max-[1650px]:-top-10 left-1/2 -translate-x-1/2">
                   <BetChip amount={myBet} label={myLabel} />
                 </div>
 
                 <div className="flex h-full flex-col justify-center">
-                  <div className="text-sm min-[1536px]:max-[1650px]:text-xs uppercase text-white opacity-60">You</div>
-                  <div className="text-xl min-[1536px]:max-[1650px]:text-base font-semibold capitalize text-white">{studentProfile.firstName || "Guest"}</div>
+                  <div className="text-sm min-[1536px]:max-[1650px]:text-xs uppercase text-white opacity-60">{heroSeatName}</div>
+                  {!spectating && (
+                    <div className="text-xl min-[1536px]:max-[1650px]:text-base font-semibold capitalize text-white">{studentProfile.firstName || "Guest"}</div>
+                  )}
 
                   <div className="mt-2 min-[1536px]:max-[1650px]:mt-1 text-sm min-[1536px]:max-[1650px]:text-xs text-white">
                     Stack:{" "}
@@ -5705,6 +6549,12 @@ className="text-sm min-[1536px]:max-[1650px]:text-xs text-white underline opacit
                       <CardTile card={youD} />
                     </>
                   )
+                ) : spectating && displayCards ? (
+                  // Spectators see the host's cards face down until shown
+                  <>
+                    <CardBack />
+                    <CardBack />
+                  </>
                 ) : null}
               </div>
 
@@ -5721,9 +6571,14 @@ className="text-sm min-[1536px]:max-[1650px]:text-xs text-white underline opacit
           </div>
 
           {/* ACTION PANEL (bottom-right) */}
-          {displayToAct === mySeat && displayHandResult.status === "playing" && (
+          {myLegalActions && (
             <div className="fixed bottom-4 md:bottom-6 right-4 md:right-6 z-50 flex w-[280px] md:w-[320px] min-[1536px]:max-[1650px]:w-[258px] flex-col gap-2 md:gap-3">
-              {displayGame.stacks[myActualSeat] > bottomCallAmt && displayGame.stacks[oppActualSeat] > 0 && bottomMaxTo > bottomMinRaise && (
+              {actionRejectedReason && (
+                <div className="rounded-2xl min-[1536px]:max-[1650px]:rounded-xl border border-red-600 bg-red-50 px-3 py-2 min-[1536px]:max-[1650px]:px-2 min-[1536px]:max-[1650px]:py-1.5 text-sm min-[1536px]:max-[1650px]:text-xs font-semibold text-red-600 shadow-sm">
+                  {actionRejectedReason}
+                </div>
+              )}
+              {myLegalActions.canBetRaise && bottomMaxTo > bottomMinRaise && (
                 <div className="rounded-2xl min-[1536px]:max-[1650px]:rounded-xl border bg-white p-3 min-[1536px]:max-[1650px]:p-1.5 min-[1536px]:max-[1650px]:py-2.5 text-black shadow-sm min-[1536px]:max-[1650px]:ml-auto min-[1536px]:max-[1650px]:w-[258px]">
                   <div className="mb-2 min-[1536px]:max-[1650px]:mb-1 flex items-center justify-between">
                     <div className="text-sm min-[1536px]:max-[1650px]:text-xs min-[1536px]:max-[1650px]:ml-1 font-semibold">{facingBetBottom ? "Raise to" : "Bet to"}</div>
@@ -5735,7 +6590,7 @@ className="text-sm min-[1536px]:max-[1650px]:text-xs text-white underline opacit
                       type="range"
                       min={bottomMinRaise}
                       max={bottomMaxTo}
-                      step={0.01}
+                      step={1}
                       value={betSize === "" ? bottomMinRaise : Math.max(betSize, bottomMinRaise)}
                       onChange={(e) => setBetSizeRounded(Number(e.target.value))}
                       className="w-full min-[1536px]:max-[1650px]:w-[160px]"
@@ -5746,15 +6601,16 @@ className="text-sm min-[1536px]:max-[1650px]:text-xs text-white underline opacit
                       step="0.01"
                       inputMode="decimal"
                       min={0.01}
-                      max={bottomMaxTo}
-                      value={betSize === "" ? "" : betSize}
+                      max={chipsToBB(bottomMaxTo)}
+                      value={betSize === "" ? "" : chipsToBB(betSize)}
                       placeholder=""
                       onChange={(e) => {
                         const val = e.target.value;
                         if (val === "") {
                           setBetSize("");
                         } else {
-                          const num = Number(val);
+                          // Typed in BB; stored in chips
+                          const num = bbToChips(Number(val));
                           // Allow any number up to max, don't enforce minimum during typing
                           if (num > 0) {
                             setBetSize(Math.min(num, bottomMaxTo));
@@ -5764,7 +6620,7 @@ className="text-sm min-[1536px]:max-[1650px]:text-xs text-white underline opacit
                       onBlur={() => {
                         // On blur, enforce minimum
                         if (betSize === "" || betSize < bottomMinRaise) {
-                          setBetSizeRounded((displayStreet === 0 && isOpeningAction) ? 2 : bottomMinRaise);
+                          setBetSizeRounded(bottomMinRaise);
                         } else {
                           setBetSizeRounded(Math.min(betSize, bottomMaxTo));
                         }
@@ -5779,11 +6635,8 @@ className="text-sm min-[1536px]:max-[1650px]:text-xs text-white underline opacit
                 <button
   type="button"
   onClick={() => {
-    // Determine if fold warning should show
-    const facingBet = displayGame.bets[oppActualSeat] > displayGame.bets[myActualSeat];
-    
     // Show warning when not facing a bet (can check for free)
-    const shouldWarn = !facingBet;
+    const shouldWarn = myLegalActions.canCheck;
     
     if (shouldWarn) {
       setShowFoldConfirm(true);
@@ -5814,12 +6667,11 @@ className="text-sm min-[1536px]:max-[1650px]:text-xs text-white underline opacit
   )}
 </button>
 
-                {displayGame.stacks[myActualSeat] > bottomCallAmt && displayGame.stacks[oppActualSeat] > 0 && (
+                {myLegalActions.canBetRaise && (
                   <button
   type="button"
   onClick={() => {
-    const finalSize = betSize === "" || betSize < bottomMinRaise ? openingDefault : Math.max(betSize, bottomMinRaise);
-    dispatchAction({ type: "BET_RAISE_TO", to: finalSize });
+    dispatchAction({ type: "BET_RAISE_TO", to: displayBetSize });
   }}
   disabled={!(displayToAct === mySeat && displayHandResult.status === "playing")}
   className="flex h-[64px] w-[100px] min-[1536px]:max-[1650px]:h-[50px] min-[1536px]:max-[1650px]:w-[78px] flex-col items-center justify-center rounded-2xl min-[1536px]:max-[1650px]:rounded-xl border bg-white px-4 py-3 min-[1536px]:max-[1650px]:px-3 min-[1536px]:max-[1650px]:py-2 text-sm min-[1536px]:max-[1650px]:text-xs font-semibold text-black shadow-sm hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
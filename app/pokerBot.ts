@@ -0,0 +1,384 @@
+/**
+ * Poker Bot
+ *
+ * Decides the single-player opponent's actions from what a player in its seat
+ * can see: its hole cards, the board, the chips and the action so far.
+ * - Hand strength: equity against the range the opponent's actions suggest
+ *   (Monte Carlo with evaluateCodes; preflop hands ranked by the Chen formula)
+ * - Pot odds and stack-to-pot ratio decide calls and when to commit
+ * - Position and board texture decide how often to bluff and how big to bet
+ * - Short stacked preflop it plays the push/fold charts (pushFold.ts)
+ *
+ * How loose, aggressive and tricky it plays comes from a BotProfile; the
+ * styles in BOT_PROFILES range from a passive beginner to a maniac.
+ *
+ * Returns a GameAction that is always legal for the LegalActions it was given.
+ */
+
+import type { ActionLogItem, Card, GameAction, GameState, Seat, Street, StreetName } from "./multiplayerHost";
+import type { LegalActions } from "./bettingRules";
+import { isAggressiveAction } from "./actionLog";
+import { cardCode, evaluateCodes } from "./handEvaluator";
+import { PUSH_FOLD_STACK_BB, effectiveStackBB, pushFoldAdvice } from "./pushFold";
+
+// Everything the bot may look at when it's its turn. Amounts in chips.
+export type BotView = {
+  seat: Seat;
+  holeCards: [Card, Card];
+  board: Card[];          // dealt cards only
+  street: Street;
+  game: GameState;
+  legal: LegalActions;    // computeLegalActions for the bot's seat
+  dealerSeat: Seat;       // the dealer is in position after the flop
+  bigBlind: number;
+  ante: number;           // each player's ante this level (0 = none)
+  log: ActionLogItem[];   // this hand's actions so far
+};
+
+export type BoardTexture = {
+  paired: boolean;
+  flushDraw: boolean;       // two cards of a suit: a flush can still come
+  flushPossible: boolean;   // three or more of a suit
+  straightPossible: boolean; // three ranks within a five-rank window
+  wetness: number;          // 0 (dry) - 1 (very wet)
+};
+
+export type BotStyle = "beginner" | "tightPassive" | "looseAggressive" | "maniac" | "balanced";
+
+// Equities are chances (0-1) against the opponent's likely range
+export type BotProfile = {
+  style: BotStyle;
+  label: string;
+  openEquity: number;      // preflop: raise an unopened pot at or above
+  limpEquity: number;      // preflop: otherwise limp at or above, else fold
+  valueEquity: number;     // bet for value at or above (out of position; a little lower in position)
+  raiseEquity: number;     // raise a bet at or above...
+  raiseEdge: number;       // ...and at least this much over the pot odds
+  callMargin: number;      // extra equity over the pot odds needed to call (negative calls light)
+  bluffRate: number;       // scales how often it bets with nothing
+  semiBluffRate: number;   // scales how often it raises draws
+  slowPlayRate: number;    // chance to check a monster on a dry board
+  sizing: number;          // scales bet sizes
+  maxRaises: number;       // past this many raises a street it only calls, folds or shoves
+  readsRange: boolean;     // narrows the opponent's range from their actions
+  playsCharts: boolean;    // pushes or folds by the chart when short stacked
+  samples: number;         // Monte Carlo samples per decision (fewer = sloppier reads)
+};
+
+export const BOT_PROFILES: Record<BotStyle, BotProfile> = {
+  beginner: {
+    style: "beginner", label: "Beginner",
+    openEquity: 0.58, limpEquity: 0.25, valueEquity: 0.62, raiseEquity: 0.8, raiseEdge: 0.3,
+    callMargin: -0.06, bluffRate: 0.5, semiBluffRate: 0.3, slowPlayRate: 0.4, sizing: 0.7,
+    maxRaises: 2, readsRange: false, playsCharts: false, samples: 200,
+  },
+  tightPassive: {
+    style: "tightPassive", label: "Tight-Passive",
+    openEquity: 0.6, limpEquity: 0.45, valueEquity: 0.72, raiseEquity: 0.75, raiseEdge: 0.3,
+    callMargin: 0.03, bluffRate: 0.3, semiBluffRate: 0.2, slowPlayRate: 0.5, sizing: 0.8,
+    maxRaises: 2, readsRange: true, playsCharts: true, samples: 1500,
+  },
+  looseAggressive: {
+    style: "looseAggressive", label: "Loose-Aggressive",
+    openEquity: 0.44, limpEquity: 0.3, valueEquity: 0.55, raiseEquity: 0.56, raiseEdge: 0.18,
+    callMargin: -0.03, bluffRate: 1.8, semiBluffRate: 2, slowPlayRate: 0.1, sizing: 1.15,
+    maxRaises: 4, readsRange: true, playsCharts: true, samples: 1500,
+  },
+  maniac: {
+    style: "maniac", label: "Maniac",
+    openEquity: 0.3, limpEquity: 0, valueEquity: 0.45, raiseEquity: 0.48, raiseEdge: 0.1,
+    callMargin: -0.08, bluffRate: 3.5, semiBluffRate: 4, slowPlayRate: 0, sizing: 1.4,
+    maxRaises: 5, readsRange: true, playsCharts: true, samples: 1000,
+  },
+  balanced: {
+    style: "balanced", label: "Balanced",
+    openEquity: 0.52, limpEquity: 0.36, valueEquity: 0.63, raiseEquity: 0.62, raiseEdge: 0.25,
+    callMargin: 0, bluffRate: 1, semiBluffRate: 1, slowPlayRate: 0.25, sizing: 1,
+    maxRaises: 3, readsRange: true, playsCharts: true, samples: 1500,
+  },
+};
+
+// Picker order, softest first
+export const BOT_STYLES: BotStyle[] = ["beginner", "tightPassive", "looseAggressive", "maniac", "balanced"];
+
+// The bot's player name, e.g. "Maniac Bot" (also how hand histories record the style)
+export function botName(style: BotStyle): string {
+  return `${BOT_PROFILES[style].label} Bot`;
+}
+
+export function botStyleFromName(name: string): BotStyle | undefined {
+  return BOT_STYLES.find((style) => botName(style) === name);
+}
+
+const EQUITY_SAMPLES = 1500;
+
+/* ---------- preflop ranking ---------- */
+
+function rankValue(code: number) {
+  return (code >> 2) + 2;
+}
+
+// Chen formula: a quick, well-known preflop hand score (-1 to 20)
+function chenScore(a: number, b: number) {
+  const high = Math.max(rankValue(a), rankValue(b));
+  const low = Math.min(rankValue(a), rankValue(b));
+  const points = (v: number) => (v === 14 ? 10 : v === 13 ? 8 : v === 12 ? 7 : v === 11 ? 6 : v / 2);
+
+  if (high === low) return Math.max(5, points(high) * 2);
+
+  let score = points(high);
+  if ((a & 3) === (b & 3)) score += 2;
+  const gap = high - low - 1;
+  score -= gap === 0 ? 0 : gap === 1 ? 1 : gap === 2 ? 2 : gap === 3 ? 4 : 5;
+  if (gap <= 1 && high < 12) score += 1;
+  return Math.ceil(score);
+}
+
+// All 1326 starting hands, strongest first: a range is the first N of them
+const COMBOS: [number, number][] = [];
+for (let a = 0; a < 52; a++) for (let b = a + 1; b < 52; b++) COMBOS.push([a, b]);
+COMBOS.sort((x, y) => chenScore(y[0], y[1]) - chenScore(x[0], x[1]));
+
+/* ---------- hand strength ---------- */
+
+/**
+ * Chance `hole` beats a random hand from the top `rangeFraction` of starting
+ * hands by the river (ties count half)
+ */
+export function equityVsRange(hole: Card[], board: Card[], rangeFraction: number, samples = EQUITY_SAMPLES, random = Math.random): number {
+  const holeCodes = hole.map(cardCode);
+  const boardCodes = board.map(cardCode);
+  const dead = new Set([...holeCodes, ...boardCodes]);
+
+  const rangeSize = Math.max(1, Math.round(COMBOS.length * rangeFraction));
+  let range = COMBOS.slice(0, rangeSize).filter(([a, b]) => !dead.has(a) && !dead.has(b));
+  if (range.length === 0) range = COMBOS.filter(([a, b]) => !dead.has(a) && !dead.has(b));
+
+  const deck: number[] = [];
+  for (let code = 0; code < 52; code++) if (!dead.has(code)) deck.push(code);
+
+  const mine = [...holeCodes, ...boardCodes, 0, 0, 0, 0, 0].slice(0, 7);
+  const theirs = [0, 0, ...boardCodes, 0, 0, 0, 0, 0].slice(0, 7);
+  const missing = 5 - boardCodes.length;
+
+  let points = 0;
+  for (let s = 0; s < samples; s++) {
+    const [oppA, oppB] = range[Math.floor(random() * range.length)];
+    theirs[0] = oppA;
+    theirs[1] = oppB;
+
+    // Deal the rest of the board from the top of a partly shuffled deck
+    let dealt = 0;
+    for (let i = 0; dealt < missing; i++) {
+      const j = i + Math.floor(random() * (deck.length - i));
+      [deck[i], deck[j]] = [deck[j], deck[i]];
+      if (deck[i] === oppA || deck[i] === oppB) continue;
+      mine[2 + boardCodes.length + dealt] = deck[i];
+      theirs[2 + boardCodes.length + dealt] = deck[i];
+      dealt++;
+    }
+
+    const a = evaluateCodes(mine);
+    const b = evaluateCodes(theirs);
+    points += a > b ? 1 : a === b ? 0.5 : 0;
+  }
+  return points / samples;
+}
+
+export function boardTexture(board: Card[]): BoardTexture {
+  const codes = board.map(cardCode);
+  const suitCounts = [0, 0, 0, 0];
+  let ranks = 0;
+  for (const code of codes) {
+    suitCounts[code & 3]++;
+    ranks |= 1 << (code >> 2);
+  }
+  // Aces play low too
+  if (ranks & (1 << 12)) ranks |= 1 << 13;
+
+  let straightPossible = false;
+  for (let low = 0; low <= 9; low++) {
+    let inWindow = 0;
+    for (let r = low; r < low + 5; r++) if (ranks & (1 << r)) inWindow++;
+    if (inWindow >= 3) straightPossible = true;
+  }
+
+  const maxSuit = Math.max(...suitCounts);
+  const paired = new Set(codes.map((c) => c >> 2)).size < codes.length;
+  const flushPossible = maxSuit >= 3;
+  const flushDraw = maxSuit === 2 && board.length < 5;
+
+  const wetness = Math.min(1, (flushPossible ? 0.45 : flushDraw ? 0.25 : 0) + (straightPossible ? 0.4 : 0) + (paired ? 0.1 : 0));
+  return { paired, flushDraw, flushPossible, straightPossible, wetness };
+}
+
+/* ---------- reading the opponent ---------- */
+
+// Share of starting hands the opponent likely holds, narrowed by how they've played
+function opponentRange(view: BotView): number {
+  let range = 1;
+  for (const item of view.log) {
+    if (item.seat === view.seat) continue;
+    const { kind } = item.event;
+    if (item.street === "Preflop") {
+      if (isAggressiveAction(kind)) range *= range === 1 ? 0.55 : 0.45;
+      else if (kind === "call") range *= 0.85;
+    } else if (kind === "raise") range *= 0.5;
+    else if (kind === "bet") range *= 0.75;
+    else if (kind === "call") range *= 0.85;
+  }
+  return Math.max(0.04, range);
+}
+
+const STREET_NAMES: Record<Street, StreetName> = { 0: "Preflop", 3: "Flop", 4: "Turn", 5: "River" };
+
+function raisesThisStreet(view: BotView) {
+  const street = STREET_NAMES[view.street];
+  return view.log.filter((item) => item.street === street && isAggressiveAction(item.event.kind)).length;
+}
+
+/* ---------- sizing ---------- */
+
+/**
+ * Bet or raise-to amount for a hand: preflop opens of 2.5-4bb and 3-bets of
+ * ~3x, postflop a fraction of the pot that grows with strength and with how
+ * many draws the board allows. Clamped to the legal range; shoves instead of
+ * leaving a stack too small to play.
+ */
+export function pickBetSize(view: BotView, strength: number, texture: BoardTexture, profile: BotProfile, random = Math.random): number {
+  const { game, legal } = view;
+  const pot = game.pot + game.bets.top + game.bets.bottom;
+  const myBet = game.bets[view.seat];
+  const facing = Math.max(game.bets.top, game.bets.bottom);
+
+  let to: number;
+  if (view.street === 0) {
+    to = legal.isRaise && facing > view.bigBlind
+      ? facing * (2.7 + random() * 0.6)                          // 3-bet
+      : view.bigBlind * (2.5 + (strength > 0.6 ? 0.5 : 0) + random()); // open
+  } else {
+    // Strong hands and wet boards bet bigger; thin value and bluffs stay small
+    const fraction = 0.33 + Math.max(0, strength - 0.5) * 0.6 + texture.wetness * 0.3 + (random() - 0.5) * 0.1;
+    const potAfterCall = pot + (facing - myBet);
+    to = facing + potAfterCall * Math.min(1, fraction);
+  }
+  to = facing + (to - facing) * profile.sizing;
+
+  to = Math.round(Math.min(Math.max(to, legal.minRaiseTo), legal.maxRaiseTo));
+
+  // Less than a third of the stack behind: just go all-in
+  const behind = legal.allInTo - to;
+  if (behind < (legal.allInTo - myBet) / 3) to = legal.maxRaiseTo;
+  return to;
+}
+
+/* ---------- push/fold ---------- */
+
+/**
+ * The chart's play for a short-stacked preflop spot: the small blind's first
+ * action is push or fold; facing a raise, hands in the calling range go all-in
+ * (or call an all-in) and the rest fold; after a limp the big blind shoves its
+ * pushing range and checks the rest.
+ */
+function chartAction(view: BotView, stackBB: number): GameAction | null {
+  const { game, legal } = view;
+  const opponent: Seat = view.seat === "top" ? "bottom" : "top";
+  const shove: GameAction = legal.canBetRaise ? { type: "BET_RAISE_TO", to: legal.maxRaiseTo } : { type: "CALL" };
+  const anteBB = view.ante / view.bigBlind;
+
+  if (legal.canCheck) {
+    const advice = pushFoldAdvice(view.holeCards, "SB", stackBB, anteBB);
+    if (!advice) return null;
+    return advice.action === "push" && legal.canBetRaise ? shove : { type: "CHECK" };
+  }
+
+  if (raisesThisStreet(view) === 0) {
+    if (view.seat !== view.dealerSeat) return null;
+    const advice = pushFoldAdvice(view.holeCards, "SB", stackBB, anteBB);
+    if (!advice) return null;
+    return advice.action === "push" ? shove : { type: "FOLD" };
+  }
+
+  const advice = pushFoldAdvice(view.holeCards, "BB", stackBB, anteBB);
+  if (!advice) return null;
+  if (advice.action === "fold") return { type: "FOLD" };
+  return game.stacks[opponent] === 0 ? { type: "CALL" } : shove;
+}
+
+/* ---------- decision ---------- */
+
+/**
+ * The bot's action for this turn, played in the given style
+ */
+export function decideBotAction(view: BotView, profile: BotProfile = BOT_PROFILES.balanced, random = Math.random): GameAction {
+  const { game, legal } = view;
+  const preflop = view.street === 0;
+
+  if (preflop && profile.playsCharts) {
+    const stackBB = effectiveStackBB(game.stacks, game.bets, view.bigBlind);
+    const action = stackBB <= PUSH_FOLD_STACK_BB ? chartAction(view, stackBB) : null;
+    if (action) return action;
+  }
+
+  const inPosition = preflop ? view.seat !== view.dealerSeat : view.seat === view.dealerSeat;
+
+  const range = profile.readsRange ? opponentRange(view) : 1;
+  const equity = equityVsRange(view.holeCards, view.board, range, profile.samples, random);
+  const texture = boardTexture(view.board);
+
+  const pot = game.pot + game.bets.top + game.bets.bottom;
+  const myStack = game.stacks[view.seat];
+  const effectiveStack = Math.min(myStack, game.stacks[view.seat === "top" ? "bottom" : "top"] + legal.callAmount);
+  const spr = pot > 0 ? effectiveStack / pot : Infinity;
+  const canRaise = legal.canBetRaise && raisesThisStreet(view) < profile.maxRaises;
+
+  const raise = (strength: number): GameAction => ({ type: "BET_RAISE_TO", to: pickBetSize(view, strength, texture, profile, random) });
+  const shove: GameAction = { type: "BET_RAISE_TO", to: legal.maxRaiseTo };
+
+  // Nothing to call: bet for value, sometimes as a bluff, otherwise check
+  if (legal.canCheck) {
+    if (!legal.canBetRaise) return { type: "CHECK" };
+
+    const valueLine = profile.valueEquity - (preflop ? 0.03 : inPosition ? 0.05 : 0);
+    if (equity >= valueLine) {
+      // Slow-play a monster now and then on a dry board
+      if (equity > 0.85 && texture.wetness < 0.3 && random() < profile.slowPlayRate) return { type: "CHECK" };
+      return spr < 1 ? shove : raise(equity);
+    }
+
+    // Bluffs: more on dry boards and in position, none on the river with showdown value
+    const baseRate = (preflop ? 0.1 : 0.12 + (1 - texture.wetness) * 0.15) + (inPosition ? 0.08 : 0);
+    const bluffRate = Math.min(0.9, baseRate * profile.bluffRate);
+    const hasShowdownValue = equity > 0.4;
+    if (!(view.street === 5 && hasShowdownValue) && random() < bluffRate) return raise(0.3);
+    return { type: "CHECK" };
+  }
+
+  // Unopened preflop, only the big blind to call: open, limp or fold
+  if (preflop && raisesThisStreet(view) === 0) {
+    if (canRaise && equity >= profile.openEquity) return raise(equity);
+    return equity >= profile.limpEquity ? { type: "CALL" } : { type: "FOLD" };
+  }
+
+  // Facing a bet: pot odds set the price, strength and SPR decide the rest
+  const callAmount = legal.callAmount;
+  const potOdds = callAmount / (pot + callAmount);
+  const committed = spr < 1.5 || callAmount >= myStack * 0.6;
+
+  if (canRaise && equity >= Math.max(profile.raiseEquity, potOdds + profile.raiseEdge)) {
+    return committed ? shove : raise(equity);
+  }
+
+  // Semi-bluff raises with a drawing board and some equity, mostly in position
+  if (canRaise && !preflop && view.street < 5 && equity > 0.3 && texture.wetness > 0.4
+      && random() < Math.min(0.9, (inPosition ? 0.12 : 0.06) * profile.semiBluffRate)) {
+    return raise(0.35);
+  }
+
+  // Implied odds make calling a little lighter early with stacks behind;
+  // once committed, any reasonable price is a call
+  const margin = (committed ? -0.03 : preflop ? 0.02 : view.street < 5 ? 0.04 : 0.06) + profile.callMargin;
+  if (equity >= potOdds + margin - (inPosition ? 0.02 : 0)) return { type: "CALL" };
+
+  return { type: "FOLD" };
+}
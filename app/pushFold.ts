@@ -0,0 +1,81 @@
+/**
+ * Push/Fold
+ *
+ * Shared by pokerBot.ts and page.tsx.
+ *
+ * Once stacks are short, heads-up preflop play comes down to the small blind
+ * going all-in or folding and the big blind calling or folding. The charts in
+ * pushFoldChart.ts give the equilibrium answer for every hand by effective
+ * stack, one pair of charts per ante; this module looks hands up in them.
+ */
+
+import type { Card, Seat } from "./multiplayerHost";
+import { PUSH_FOLD_CHARTS } from "./pushFoldChart";
+
+// The charts cover effective stacks up to this many big blinds
+export const PUSH_FOLD_MAX_BB = 20;
+// At or below this the AI plays the chart
+export const PUSH_FOLD_STACK_BB = 10;
+
+export const HAND_GRID_SIZE = 13;
+
+const GRID_RANKS = "AKQJT98765432";
+
+export type PushFoldAdvice = {
+  hand: string;            // "AKo", "T9s", "77"
+  action: "push" | "call" | "fold";
+  upToBB: number;          // the chart's largest stack for this hand (PUSH_FOLD_MAX_BB = any)
+};
+
+/**
+ * Grid cell -> hand name: row/col index 0 = ace, suited above the diagonal
+ */
+export function gridHandName(row: number, col: number): string {
+  const high = GRID_RANKS[Math.min(row, col)];
+  const low = GRID_RANKS[Math.max(row, col)];
+  if (row === col) return `${high}${low}`;
+  return `${high}${low}${row < col ? "s" : "o"}`;
+}
+
+function gridCell(cards: [Card, Card]): [number, number] {
+  const a = GRID_RANKS.indexOf(cards[0].rank);
+  const b = GRID_RANKS.indexOf(cards[1].rank);
+  const high = Math.min(a, b);
+  const low = Math.max(a, b);
+  return cards[0].suit === cards[1].suit ? [high, low] : [low, high];
+}
+
+/**
+ * Effective stack in big blinds: the smaller of the two stacks counting what
+ * each has already put in this street
+ */
+export function effectiveStackBB(stacks: Record<Seat, number>, bets: Record<Seat, number>, bigBlind: number): number {
+  return Math.min(stacks.top + bets.top, stacks.bottom + bets.bottom) / bigBlind;
+}
+
+/**
+ * What the chart does with `cards`: from the small blind push or fold, from
+ * the big blind (facing an all-in) call or fold. Uses the chart for the ante
+ * nearest `anteBB` (each player's ante, in big blinds). Null above the
+ * chart's stacks.
+ */
+export function pushFoldAdvice(
+  cards: [Card, Card],
+  position: "SB" | "BB",
+  stackBB: number,
+  anteBB: number = 0
+): PushFoldAdvice | null {
+  if (stackBB > PUSH_FOLD_MAX_BB) return null;
+
+  const chart = PUSH_FOLD_CHARTS.reduce((best, c) =>
+    Math.abs(c.anteBB - anteBB) < Math.abs(best.anteBB - anteBB) ? c : best
+  );
+  const [row, col] = gridCell(cards);
+  const upToBB = (position === "SB" ? chart.push : chart.call)[row][col];
+  const plays = upToBB >= PUSH_FOLD_MAX_BB || stackBB <= upToBB;
+  return {
+    hand: gridHandName(row, col),
+    action: plays ? (position === "SB" ? "push" : "call") : "fold",
+    upToBB,
+  };
+}
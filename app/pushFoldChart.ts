@@ -0,0 +1,113 @@
+/**
+ * Push/Fold Chart
+ *
+ * Generated by scripts/generatePushFoldChart.ts (npm run generate:pushfold) - do not edit.
+ *
+ * Largest effective stack in big blinds at which each hand pushes from the
+ * small blind (push) or calls an all-in in the big blind (call) in the
+ * heads-up push/fold equilibrium, blinds 0.5/1, one chart per ante (in big
+ * blinds, posted by both players) used in the blind structure.
+ * Rows and columns run A to 2: suited hands above the diagonal, offsuit below.
+ */
+
+export const PUSH_FOLD_CHARTS: { anteBB: number; push: number[][]; call: number[][] }[] = [
+  {
+    anteBB: 0,
+    push: [
+      [20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0], // A
+      [20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,19.9,19.2], // K
+      [20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,16.4,13.6,12.7], // Q
+      [20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,18.9,16.2,11.9,10.9, 8.3], // J
+      [20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,13.6,10.6, 7.7, 6.5], // T
+      [20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,14.2, 6.9, 4.9, 3.4], // 9
+      [20.0,18.2,13.0,13.4,17.9,20.0,20.0,20.0,20.0,18.8,10.0, 2.8, 2.5], // 8
+      [20.0,16.1,10.3, 8.4, 9.1,10.9,14.5,20.0,20.0,20.0,13.0, 2.5, 2.1], // 7
+      [20.0,15.2, 9.8, 6.4, 5.7, 5.2, 7.0,10.8,20.0,20.0,16.0, 7.0, 2.0], // 6
+      [20.0,14.5, 8.9, 6.0, 4.1, 3.5, 2.9, 2.7, 7.1,20.0,20.0,11.9, 2.0], // 5
+      [20.0,13.0, 8.0, 5.4, 3.8, 2.6, 2.3, 2.2, 2.0, 2.1,20.0, 9.4, 1.8], // 4
+      [20.0,12.4, 7.5, 5.0, 3.3, 2.5, 1.9, 1.8, 1.7, 1.8, 1.6,20.0, 1.7], // 3
+      [20.0,11.7, 7.0, 4.7, 2.9, 2.2, 1.9, 1.6, 1.5, 1.5, 1.4, 1.4,20.0], // 2
+    ],
+    call: [
+      [20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0], // A
+      [20.0,20.0,20.0,20.0,20.0,20.0,17.9,15.2,14.4,13.2,12.1,11.4,10.8], // K
+      [20.0,20.0,20.0,20.0,20.0,15.9,12.7,10.5, 9.6, 8.9, 8.4, 7.8, 7.3], // Q
+      [20.0,20.0,19.6,20.0,18.5,13.4,10.7, 8.6, 7.1, 6.7, 6.2, 5.8, 5.6], // J
+      [20.0,20.0,15.3,12.8,20.0,11.7, 9.2, 7.5, 6.5, 5.4, 5.1, 4.8, 4.5], // T
+      [20.0,17.3,11.5, 9.6, 8.5,20.0, 8.2, 7.0, 5.8, 4.9, 4.2, 4.1, 3.9], // 9
+      [20.0,13.8, 9.7, 7.6, 6.7, 6.0,20.0, 6.6, 5.7, 4.8, 4.1, 3.7, 3.6], // 8
+      [20.0,12.4, 8.0, 6.3, 5.5, 5.0, 4.8,20.0, 5.4, 4.8, 4.1, 3.7, 3.3], // 7
+      [20.0,11.1, 7.3, 5.3, 4.6, 4.2, 4.0, 4.0,20.0, 4.9, 4.2, 3.7, 3.4], // 6
+      [20.0,10.2, 6.8, 5.1, 3.9, 3.7, 3.5, 3.6, 3.7,20.0, 4.6, 4.0, 3.6], // 5
+      [18.5, 9.1, 6.2, 4.7, 3.8, 3.3, 3.1, 3.2, 3.3, 3.5,20.0, 3.8, 3.4], // 4
+      [16.6, 8.8, 5.9, 4.4, 3.6, 3.2, 2.9, 2.9, 3.0, 3.1, 3.0,20.0, 3.3], // 3
+      [15.7, 8.2, 5.6, 4.2, 3.5, 3.1, 2.8, 2.6, 2.7, 2.8, 2.7, 2.6,15.1], // 2
+    ],
+  },
+  {
+    anteBB: 0.083,
+    push: [
+      [20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0], // A
+      [20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0], // K
+      [20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,18.6,15.1,14.2], // Q
+      [20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,18.0,13.3,12.1, 9.3], // J
+      [20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,15.5,12.0, 9.8, 7.2], // T
+      [20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,15.8, 7.8, 5.8, 4.5], // 9
+      [20.0,20.0,14.5,14.9,20.0,20.0,20.0,20.0,20.0,20.0,11.5, 3.2, 2.9], // 8
+      [20.0,17.9,11.5, 9.3,11.1,12.1,16.1,20.0,20.0,20.0,14.5, 2.9, 2.3], // 7
+      [20.0,16.9,10.9, 7.1, 6.4, 5.8, 7.8,13.2,20.0,20.0,17.8, 7.8, 2.2], // 6
+      [20.0,16.1, 9.9, 6.7, 4.8, 4.0, 3.6, 3.2, 9.7,20.0,20.0,13.2, 2.3], // 5
+      [20.0,14.4, 9.2, 6.0, 4.4, 3.0, 2.6, 2.4, 2.3, 2.3,20.0,11.0, 2.1], // 4
+      [20.0,13.8, 8.4, 5.7, 3.9, 2.8, 2.2, 2.0, 2.0, 2.0, 1.8,20.0, 1.9], // 3
+      [20.0,13.0, 7.8, 5.3, 3.4, 2.5, 2.1, 1.8, 1.7, 1.7, 1.6, 1.5,20.0], // 2
+    ],
+    call: [
+      [20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0], // A
+      [20.0,20.0,20.0,20.0,20.0,20.0,19.9,16.9,15.9,14.6,13.4,12.5,11.9], // K
+      [20.0,20.0,20.0,20.0,20.0,17.7,14.1,11.6,10.6, 9.9, 9.4, 8.6, 8.0], // Q
+      [20.0,20.0,20.0,20.0,20.0,14.8,11.9, 9.5, 7.9, 7.4, 6.8, 6.4, 6.1], // J
+      [20.0,20.0,16.7,14.1,20.0,13.0,10.2, 8.2, 7.1, 5.9, 5.7, 5.3, 4.9], // T
+      [20.0,19.1,12.8,10.5, 9.3,20.0, 9.1, 7.8, 6.4, 5.4, 4.6, 4.4, 4.2], // 9
+      [20.0,15.3,10.8, 8.4, 7.5, 6.7,20.0, 7.3, 6.1, 5.3, 4.4, 3.9, 3.8], // 8
+      [20.0,13.8, 8.8, 7.1, 6.1, 5.6, 5.2,20.0, 5.9, 5.2, 4.4, 4.0, 3.5], // 7
+      [20.0,12.3, 8.1, 5.9, 5.0, 4.7, 4.4, 4.3,20.0, 5.3, 4.6, 4.0, 3.6], // 6
+      [20.0,11.3, 7.5, 5.6, 4.3, 4.0, 3.8, 3.9, 3.9,20.0, 5.0, 4.2, 3.8], // 5
+      [20.0,10.1, 6.9, 5.1, 4.1, 3.5, 3.4, 3.4, 3.5, 3.7,20.0, 4.1, 3.6], // 4
+      [18.3, 9.7, 6.5, 4.8, 3.9, 3.4, 3.1, 3.1, 3.2, 3.3, 3.2,20.0, 3.5], // 3
+      [17.3, 9.1, 6.1, 4.7, 3.8, 3.3, 3.0, 2.8, 2.9, 3.0, 2.9, 2.8,16.4], // 2
+    ],
+  },
+  {
+    anteBB: 0.125,
+    push: [
+      [20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0], // A
+      [20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0], // K
+      [20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,19.6,16.0,14.9], // Q
+      [20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,18.9,14.0,13.2, 9.8], // J
+      [20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,16.3,12.6,10.3, 8.0], // T
+      [20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,16.8, 8.2, 6.6, 4.9], // 9
+      [20.0,20.0,15.2,15.7,20.0,20.0,20.0,20.0,20.0,20.0,12.1, 3.4, 3.0], // 8
+      [20.0,18.8,12.1, 9.9,11.7,12.7,16.9,20.0,20.0,20.0,15.3, 3.1, 2.5], // 7
+      [20.0,17.7,11.5, 7.5, 6.7, 6.6, 8.3,13.8,20.0,20.0,18.7, 8.3, 2.4], // 6
+      [20.0,16.9,10.5, 7.1, 5.1, 4.2, 3.8, 3.7,10.3,20.0,20.0,13.9, 2.4], // 5
+      [20.0,15.2, 9.6, 6.4, 4.6, 3.2, 2.7, 2.6, 2.4, 2.5,20.0,11.6, 2.2], // 4
+      [20.0,14.7, 8.8, 6.0, 4.2, 3.0, 2.3, 2.2, 2.1, 2.1, 1.9,20.0, 2.1], // 3
+      [20.0,13.7, 8.2, 5.6, 3.7, 2.7, 2.2, 1.9, 1.8, 1.8, 1.7, 1.6,20.0], // 2
+    ],
+    call: [
+      [20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0,20.0], // A
+      [20.0,20.0,20.0,20.0,20.0,20.0,20.0,17.7,16.7,15.4,14.1,13.1,12.4], // K
+      [20.0,20.0,20.0,20.0,20.0,18.6,14.8,12.1,11.1,10.4, 9.8, 9.0, 8.4], // Q
+      [20.0,20.0,20.0,20.0,20.0,15.6,12.3,10.0, 8.3, 7.8, 7.2, 6.8, 6.4], // J
+      [20.0,20.0,17.5,14.9,20.0,13.7,10.8, 8.6, 7.4, 6.2, 5.9, 5.5, 5.1], // T
+      [20.0,20.0,13.4,11.0, 9.8,20.0, 9.5, 8.1, 6.7, 5.6, 4.8, 4.6, 4.3], // 9
+      [20.0,16.1,11.3, 8.8, 7.9, 7.0,20.0, 7.7, 6.4, 5.5, 4.6, 4.0, 3.9], // 8
+      [20.0,14.5, 9.3, 7.4, 6.4, 5.8, 5.5,20.0, 6.1, 5.5, 4.6, 4.1, 3.6], // 7
+      [20.0,12.9, 8.5, 6.2, 5.2, 4.9, 4.6, 4.4,20.0, 5.6, 4.7, 4.1, 3.7], // 6
+      [20.0,11.8, 7.8, 5.9, 4.5, 4.1, 3.9, 4.0, 4.1,20.0, 5.1, 4.4, 3.9], // 5
+      [20.0,10.6, 7.2, 5.4, 4.3, 3.7, 3.5, 3.6, 3.6, 3.8,20.0, 4.2, 3.7], // 4
+      [19.2,10.1, 6.8, 5.1, 4.1, 3.5, 3.2, 3.2, 3.3, 3.4, 3.3,20.0, 3.6], // 3
+      [18.1, 9.5, 6.4, 4.9, 3.9, 3.4, 3.1, 2.9, 3.0, 3.1, 3.0, 2.9,17.0], // 2
+    ],
+  },
+];
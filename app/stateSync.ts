@@ -0,0 +1,80 @@
+/**
+ * State Sync
+ *
+ * Shared by multiplayerHost.ts, multiplayerJoiner.ts and multiplayerSpectator.ts.
+ *
+ * Every state the host broadcasts carries a stateVersion, bumped on each
+ * broadcast, and the epoch of the host run that sent it. Realtime broadcasts
+ * can arrive late or out of order, so receivers check each one against the
+ * last state they applied before using it.
+ *
+ * Between keyframes (full states) the host sends only what changed since the
+ * previous version; a receiver that doesn't hold that version asks for a
+ * snapshot instead.
+ */
+
+import type { ActionLogItem, HostStateView } from "./multiplayerHost";
+
+export type StateStamp = { epoch: number; version: number };
+
+// stale: older than (or the same as) what we have - drop it
+// next:  the one after what we have, or the first from a new host run
+// gap:   newer, but versions were missed on the way
+export type StampCheck = "stale" | "next" | "gap";
+
+export function checkStamp(last: StateStamp | null, incoming: StateStamp): StampCheck {
+  if (!last) return "next";
+
+  // A restored host starts a new epoch and may count from a lower version
+  if (incoming.epoch < last.epoch) return "stale";
+  if (incoming.epoch > last.epoch) return "next";
+
+  if (incoming.version <= last.version) return "stale";
+  return incoming.version === last.version + 1 ? "next" : "gap";
+}
+
+/* ---------- deltas ---------- */
+
+// What changed between two broadcast states: top-level fields replaced
+// whole, except the action log, which only grows during a hand and is sent
+// as the items appended after logFrom
+export type StateDelta = {
+  set: Partial<HostStateView>;
+  logFrom: number;
+  log: ActionLogItem[];
+};
+
+/**
+ * Delta that turns `prev` into `next`
+ */
+export function diffState(prev: HostStateView, next: HostStateView): StateDelta {
+  const set: Partial<HostStateView> = {};
+  for (const key of Object.keys(next) as (keyof HostStateView)[]) {
+    if (key === "actionLog") continue;
+    if (JSON.stringify(prev[key]) !== JSON.stringify(next[key])) {
+      (set as Record<string, unknown>)[key] = next[key];
+    }
+  }
+
+  // Same log so far (last item unchanged): send the new items only
+  const logFrom = prev.actionLog.length;
+  const lastId = prev.actionLog[logFrom - 1]?.id;
+  if (next.actionLog.length >= logFrom && next.actionLog[logFrom - 1]?.id === lastId) {
+    return { set, logFrom, log: next.actionLog.slice(logFrom) };
+  }
+  set.actionLog = next.actionLog;
+  return { set, logFrom: 0, log: [] };
+}
+
+/**
+ * `state` with the delta applied, or null when it doesn't fit (the log has
+ * a different length than the delta was made against, or it sets fields the
+ * state doesn't have). Receivers still check the result before using it.
+ */
+export function applyDelta(state: HostStateView, delta: StateDelta): HostStateView | null {
+  if (Object.keys(delta.set).some((key) => !Object.hasOwn(state, key))) return null;
+  const next = { ...state, ...delta.set };
+  if (delta.set.actionLog) return next;
+  if (state.actionLog.length !== delta.logFrom) return null;
+  return { ...next, actionLog: [...state.actionLog, ...delta.log] };
+}
@@ -0,0 +1,149 @@
+/**
+ * Player Statistics
+ *
+ * Standard heads-up stats computed from hand snapshots, for either player:
+ * per match (this session's handLogHistory) or lifetime (saved hands).
+ * - VPIP: put money in preflop voluntarily (blinds don't count)
+ * - PFR: raised preflop
+ *   (both only over hands with a preflop decision: a walk doesn't count)
+ * - 3-bet: re-raised when facing a single preflop raise
+ * - Fold to c-bet: folded to the preflop raiser's first flop bet
+ * - AF: postflop (bets + raises) / calls
+ * - WTSD: saw the flop and went to showdown
+ * - W$SD: won at showdown (a split counts as half)
+ */
+
+import type { Seat } from "./multiplayerHost";
+import { isAggressiveAction, isBettingAction } from "./actionLog";
+import { heroSeatOf } from "./handHistory";
+import type { HandLogSnapshot } from "./handHistory";
+
+// `count` out of `opportunities`
+export type StatRatio = { count: number; opportunities: number };
+
+export type PlayerStats = {
+  hands: number;
+  vpip: StatRatio;
+  pfr: StatRatio;
+  threeBet: StatRatio;
+  foldToCbet: StatRatio;
+  aggression: { aggressive: number; calls: number };
+  wtsd: StatRatio;
+  wsd: StatRatio;
+};
+
+function emptyStats(): PlayerStats {
+  const ratio = () => ({ count: 0, opportunities: 0 });
+  return {
+    hands: 0,
+    vpip: ratio(),
+    pfr: ratio(),
+    threeBet: ratio(),
+    foldToCbet: ratio(),
+    aggression: { aggressive: 0, calls: 0 },
+    wtsd: ratio(),
+    wsd: ratio(),
+  };
+}
+
+function addHand(stats: PlayerStats, snap: HandLogSnapshot, seat: Seat) {
+  const actions = [...snap.log]
+    .sort((a, b) => a.sequence - b.sequence)
+    .filter((a) => isBettingAction(a.event.kind) || a.event.kind === "win" || a.event.kind === "split");
+
+  const isBetting = (a: (typeof actions)[number]) => isBettingAction(a.event.kind);
+  const preflop = actions.filter((a) => a.street === "Preflop" && isBetting(a));
+  const mine = (a: (typeof actions)[number]) => a.seat === seat;
+
+  stats.hands++;
+
+  // A walk (the small blind folds) or a blind that put us all-in leaves us no choice
+  if (preflop.some(mine)) {
+    stats.vpip.opportunities++;
+    stats.pfr.opportunities++;
+    if (preflop.some((a) => mine(a) && ["call", "bet", "raise"].includes(a.event.kind))) stats.vpip.count++;
+    if (preflop.some((a) => mine(a) && isAggressiveAction(a.event.kind))) stats.pfr.count++;
+  }
+
+  // 3-bet: our first decision facing exactly one raise (the blinds are the first bet)
+  let raises = 0;
+  let facedOpen = false;
+  let preflopAggressor: Seat | null = null;
+  for (const a of preflop) {
+    if (mine(a) && raises === 1 && !facedOpen) {
+      facedOpen = true;
+      stats.threeBet.opportunities++;
+      if (isAggressiveAction(a.event.kind)) stats.threeBet.count++;
+    }
+    if (isAggressiveAction(a.event.kind)) {
+      raises++;
+      preflopAggressor = a.seat;
+    }
+  }
+
+  // Fold to c-bet: the preflop raiser leads the flop and we answer it
+  const flop = actions.filter((a) => a.street === "Flop" && isBetting(a));
+  const firstBet = flop.findIndex((a) => isAggressiveAction(a.event.kind));
+  if (preflopAggressor && preflopAggressor !== seat && firstBet !== -1 && flop[firstBet].seat === preflopAggressor) {
+    const answer = flop.slice(firstBet + 1).find(mine);
+    if (answer) {
+      stats.foldToCbet.opportunities++;
+      if (answer.event.kind === "fold") stats.foldToCbet.count++;
+    }
+  }
+
+  for (const a of actions) {
+    if (!mine(a) || a.street === "Preflop") continue;
+    if (isAggressiveAction(a.event.kind)) stats.aggression.aggressive++;
+    if (a.event.kind === "call") stats.aggression.calls++;
+  }
+
+  // Showdown: nobody folded. All-in hands run out the board, so they see the flop too.
+  const foldedPreflop = preflop.some((a) => a.event.kind === "fold");
+  const sawFlop = !foldedPreflop && snap.endedStreet >= 3;
+  const showdown = !actions.some((a) => a.event.kind === "fold");
+  if (sawFlop) {
+    stats.wtsd.opportunities++;
+    if (showdown) stats.wtsd.count++;
+  }
+  if (sawFlop && showdown) {
+    stats.wsd.opportunities++;
+    if (actions.some((a) => a.event.kind === "split")) stats.wsd.count += 0.5;
+    else if (actions.some((a) => mine(a) && a.event.kind === "win")) stats.wsd.count++;
+  }
+}
+
+/**
+ * Stats for the hero or the opponent across a set of hands
+ */
+export function computePlayerStats(hands: HandLogSnapshot[], player: "hero" | "opp"): PlayerStats {
+  const stats = emptyStats();
+  for (const snap of hands) {
+    const heroSeat = heroSeatOf(snap);
+    addHand(stats, snap, player === "hero" ? heroSeat : heroSeat === "top" ? "bottom" : "top");
+  }
+  return stats;
+}
+
+export function formatStatRatio(ratio: StatRatio): string {
+  if (ratio.opportunities === 0) return "—";
+  return `${Math.round((ratio.count / ratio.opportunities) * 100)}%`;
+}
+
+export function formatAggression({ aggressive, calls }: PlayerStats["aggression"]): string {
+  if (calls === 0) return aggressive > 0 ? "∞" : "—";
+  return (aggressive / calls).toFixed(1);
+}
+
+// Rows for stats tables: label + formatted value
+export function statRows(stats: PlayerStats): { label: string; value: string }[] {
+  return [
+    { label: "VPIP", value: formatStatRatio(stats.vpip) },
+    { label: "PFR", value: formatStatRatio(stats.pfr) },
+    { label: "3-bet", value: formatStatRatio(stats.threeBet) },
+    { label: "Fold to c-bet", value: formatStatRatio(stats.foldToCbet) },
+    { label: "AF", value: formatAggression(stats.aggression) },
+    { label: "WTSD", value: formatStatRatio(stats.wtsd) },
+    { label: "W$SD", value: formatStatRatio(stats.wsd) },
+  ];
+}
@@ -0,0 +1,202 @@
+/**
+ * Hand Evaluator Benchmark
+ *
+ * Checks the table-driven evaluator against the original sort-and-Map
+ * evaluate7 on random hands, then times both.
+ * - evaluate7 must return exactly the same number[] as the original
+ * - evaluateCodes must order every pair of hands the same way compareScore does
+ *
+ * Run: npm run bench:evaluator [-- <hands>]   (default 2,000,000)
+ * Exits non-zero on the first mismatch.
+ */
+
+import type { Card } from "../app/multiplayerHost";
+import { createDeck } from "../app/deck";
+import { cardCode, compareScore, evaluate7, evaluateCodes } from "../app/handEvaluator";
+
+/* ---------- original evaluator (reference) ---------- */
+
+const RANK_TO_VALUE: Record<string, number> = {
+  A: 14, K: 13, Q: 12, J: 11, T: 10,
+  "9": 9, "8": 8, "7": 7, "6": 6, "5": 5, "4": 4, "3": 3, "2": 2,
+};
+
+function getStraightHigh(valuesUniqueDesc: number[]) {
+  const vals = [...valuesUniqueDesc];
+  if (vals[0] === 14) vals.push(1);
+
+  let run = 1;
+  for (let i = 0; i < vals.length - 1; i++) {
+    if (vals[i] - 1 === vals[i + 1]) {
+      run++;
+      if (run >= 5) {
+        const high = vals[i - 3];
+        return high === 1 ? 5 : high;
+      }
+    } else {
+      run = 1;
+    }
+  }
+  return null;
+}
+
+function referenceEvaluate7(cards: Card[]) {
+  const values = cards.map((c) => RANK_TO_VALUE[c.rank]).sort((a, b) => b - a);
+
+  const counts = new Map<number, number>();
+  const suits = new Map<string, number[]>();
+
+  for (const c of cards) {
+    const v = RANK_TO_VALUE[c.rank];
+    counts.set(v, (counts.get(v) ?? 0) + 1);
+    const arr = suits.get(c.suit) ?? [];
+    arr.push(v);
+    suits.set(c.suit, arr);
+  }
+
+  const groups = Array.from(counts.entries())
+    .map(([v, cnt]) => ({ v, cnt }))
+    .sort((a, b) => (b.cnt !== a.cnt ? b.cnt - a.cnt : b.v - a.v));
+
+  let flushSuit: string | null = null;
+  let flushValsDesc: number[] = [];
+  for (const [s, vals] of suits.entries()) {
+    if (vals.length >= 5) {
+      const sorted = vals.slice().sort((a, b) => b - a);
+      if (!flushSuit || compareScore(sorted, flushValsDesc) > 0) {
+        flushSuit = s;
+        flushValsDesc = sorted;
+      }
+    }
+  }
+
+  const uniqueDesc = Array.from(new Set(values)).sort((a, b) => b - a);
+  const straightHigh = getStraightHigh(uniqueDesc);
+
+  if (flushSuit) {
+    const fvUnique = Array.from(new Set(flushValsDesc)).sort((a, b) => b - a);
+    const sfHigh = getStraightHigh(fvUnique);
+    if (sfHigh !== null) return [8, sfHigh];
+  }
+
+  if (groups[0]?.cnt === 4) {
+    const quad = groups[0].v;
+    const kicker = uniqueDesc.find((v) => v !== quad) ?? 0;
+    return [7, quad, kicker];
+  }
+
+  if (groups[0]?.cnt === 3) {
+    const trips = groups[0].v;
+    const pairCandidate = groups.find((g) => g.v !== trips && g.cnt >= 2);
+    if (pairCandidate) return [6, trips, pairCandidate.v];
+  }
+
+  if (flushSuit) return [5, ...flushValsDesc.slice(0, 5)];
+
+  if (straightHigh !== null) return [4, straightHigh];
+
+  if (groups[0]?.cnt === 3) {
+    const trips = groups[0].v;
+    const kickers = uniqueDesc.filter((v) => v !== trips).slice(0, 2);
+    return [3, trips, ...kickers];
+  }
+
+  if (groups[0]?.cnt === 2) {
+    const pairs = groups.filter((g) => g.cnt === 2).map((g) => g.v);
+    if (pairs.length >= 2) {
+      const sorted = pairs.sort((a, b) => b - a);
+      const highPair = sorted[0];
+      const lowPair = sorted[1];
+      const kicker = uniqueDesc.find((v) => v !== highPair && v !== lowPair) ?? 0;
+      return [2, highPair, lowPair, kicker];
+    }
+  }
+
+  if (groups[0]?.cnt === 2) {
+    const pair = groups[0].v;
+    const kickers = uniqueDesc.filter((v) => v !== pair).slice(0, 3);
+    return [1, pair, ...kickers];
+  }
+
+  return [0, ...uniqueDesc.slice(0, 5)];
+}
+
+/* ---------- benchmark ---------- */
+
+const HAND_SIZE = 7;
+const handCount = Number(process.argv[2] ?? 2_000_000);
+
+const deck = createDeck();
+const byCode: Card[] = [];
+for (const card of deck) byCode[cardCode(card)] = card;
+
+// Random seven-card hands as codes, HAND_SIZE per hand
+function randomHands(count: number): Uint8Array {
+  const codes = Uint8Array.from(deck.map(cardCode));
+  const out = new Uint8Array(count * HAND_SIZE);
+  for (let h = 0; h < count; h++) {
+    for (let i = 0; i < HAND_SIZE; i++) {
+      const j = i + Math.floor(Math.random() * (codes.length - i));
+      [codes[i], codes[j]] = [codes[j], codes[i]];
+      out[h * HAND_SIZE + i] = codes[i];
+    }
+  }
+  return out;
+}
+
+function cardsOf(hands: Uint8Array, h: number, size = HAND_SIZE): Card[] {
+  const cards: Card[] = [];
+  for (let i = 0; i < size; i++) cards.push(byCode[hands[h * HAND_SIZE + i]]);
+  return cards;
+}
+
+function fail(message: string, cards: Card[]) {
+  console.error(`MISMATCH ${message}: ${cards.map((c) => `${c.rank}${c.suit}`).join(" ")}`);
+  process.exit(1);
+}
+
+function time(label: string, run: () => void) {
+  const start = process.hrtime.bigint();
+  run();
+  const ms = Number(process.hrtime.bigint() - start) / 1e6;
+  console.log(`${label.padEnd(26)} ${ms.toFixed(0).padStart(7)} ms  ${((handCount / ms) * 1000).toFixed(0).padStart(10)} hands/s`);
+  return ms;
+}
+
+console.log(`Generating ${handCount.toLocaleString()} random hands…`);
+const hands = randomHands(handCount);
+
+// Correctness: same arrays for 5-7 cards, same ordering for consecutive 7-card hands
+const categories = new Array(9).fill(0);
+let previous: { reference: number[]; packed: number } | null = null;
+for (let h = 0; h < handCount; h++) {
+  const size = 5 + (h % 3);
+  const cards = cardsOf(hands, h, size);
+  const reference = referenceEvaluate7(cards);
+  const result = evaluate7(cards);
+  if (reference.join(",") !== result.join(",")) {
+    fail(`evaluate7 [${result}] vs original [${reference}]`, cards);
+  }
+  if (size !== HAND_SIZE) continue;
+
+  categories[reference[0]]++;
+  const packed = evaluateCodes(hands.subarray(h * HAND_SIZE, (h + 1) * HAND_SIZE));
+  if (previous && Math.sign(packed - previous.packed) !== compareScore(reference, previous.reference)) {
+    fail("evaluateCodes ordering", cards);
+  }
+  previous = { reference, packed };
+}
+console.log(`All ${handCount.toLocaleString()} hands match. 7-card categories (high card → straight flush): ${categories.join(" / ")}`);
+
+// Speed
+let sink = 0;
+const original = time("original evaluate7", () => {
+  for (let h = 0; h < handCount; h++) sink += referenceEvaluate7(cardsOf(hands, h))[0];
+});
+const table = time("table evaluate7", () => {
+  for (let h = 0; h < handCount; h++) sink += evaluate7(cardsOf(hands, h))[0];
+});
+const packed = time("table evaluateCodes", () => {
+  for (let h = 0; h < handCount; h++) sink += evaluateCodes(hands.subarray(h * HAND_SIZE, (h + 1) * HAND_SIZE));
+});
+console.log(`Speedup: evaluate7 ${(original / table).toFixed(1)}x, evaluateCodes ${(original / packed).toFixed(1)}x (checksum ${sink % 1000})`);
@@ -0,0 +1,271 @@
+/**
+ * Push/Fold Chart Generator
+ *
+ * Solves the heads-up push/fold game (small blind shoves or folds, big blind
+ * calls or folds; blinds 0.5/1) at every effective stack from 1 to
+ * PUSH_FOLD_MAX_BB big blinds, for each ante-to-big-blind ratio in
+ * BLIND_LEVELS, and writes app/pushFoldChart.ts.
+ * - All-in equity of each pair of the 169 starting hands, by Monte Carlo with
+ *   a fixed seed so the chart is reproducible
+ * - Card removal: how many of each hand the opponent can hold given ours
+ * - Fictitious play to the equilibrium at each stack, run until the average
+ *   strategies are within EXPLOITABILITY_LIMIT of it (it throws otherwise)
+ *
+ * A hand's chart entry is the largest stack at which the equilibrium pushes
+ * (or calls) with it at least half the time; PUSH_FOLD_MAX_BB means "at any
+ * stack on the chart". Hands that stop pushing and start again below their
+ * entry are listed in the log.
+ *
+ * Run: npm run generate:pushfold [-- <samples per matchup>]   (default 4000)
+ */
+
+import { writeFileSync } from "fs";
+import { join } from "path";
+import { evaluateCodes } from "../app/handEvaluator";
+import { BLIND_LEVELS } from "../app/gameConfig";
+import { HAND_GRID_SIZE, PUSH_FOLD_MAX_BB, gridHandName } from "../app/pushFold";
+
+const SAMPLES = Number(process.argv[2] ?? 4000);
+const STACK_STEP = 0.1;
+// Fictitious play stops once the strategies are this close to the equilibrium
+// (big blinds per hand either side could gain by deviating), checked every
+// CHECK_EVERY iterations
+const EXPLOITABILITY_LIMIT = 0.001;
+const CHECK_EVERY = 50;
+const MAX_ITERATIONS = 20000;
+const OUTPUT = join(__dirname, "..", "..", "app", "pushFoldChart.ts");
+
+// Seeded PRNG (mulberry32)
+let seed = 0x9e3779b9;
+function random() {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = seed;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+/* ---------- hand classes ---------- */
+
+// Card code: (rank value - 2) * 4 + suit. Grid index 0 = ace ... 12 = deuce.
+const codeOf = (gridRank: number, suit: number) => (12 - gridRank) * 4 + suit;
+
+// Every combo of each grid cell, cells numbered row * 13 + col
+const CELLS = HAND_GRID_SIZE * HAND_GRID_SIZE;
+const combos: [number, number][][] = [];
+for (let row = 0; row < HAND_GRID_SIZE; row++) {
+  for (let col = 0; col < HAND_GRID_SIZE; col++) {
+    const list: [number, number][] = [];
+    const high = Math.min(row, col);
+    const low = Math.max(row, col);
+    for (let s1 = 0; s1 < 4; s1++) {
+      for (let s2 = 0; s2 < 4; s2++) {
+        if (row === col ? s2 <= s1 : row < col ? s1 !== s2 : s1 === s2) continue;
+        list.push([codeOf(high, s1), codeOf(low, s2)]);
+      }
+    }
+    combos.push(list);
+  }
+}
+
+const overlaps = (a: [number, number], b: [number, number]) =>
+  a[0] === b[0] || a[0] === b[1] || a[1] === b[0] || a[1] === b[1];
+
+/* ---------- matchups ---------- */
+
+// weight[i][j]: combos of j the opponent can hold, averaged over our combos of i
+// equity[i][j]: i's all-in equity against j (ties count half)
+const weight = Array.from({ length: CELLS }, () => new Float64Array(CELLS));
+const equity = Array.from({ length: CELLS }, () => new Float64Array(CELLS));
+
+console.log(`Computing ${CELLS}x${CELLS} matchups, ${SAMPLES} boards each…`);
+const seven = [new Array<number>(7), new Array<number>(7)];
+const deck: number[] = [];
+for (let i = 0; i < CELLS; i++) {
+  for (let j = i; j < CELLS; j++) {
+    const pairs: [[number, number], [number, number]][] = [];
+    for (const a of combos[i]) for (const b of combos[j]) if (!overlaps(a, b)) pairs.push([a, b]);
+    weight[i][j] = pairs.length / combos[i].length;
+    weight[j][i] = pairs.length / combos[j].length;
+    if (pairs.length === 0) continue;
+
+    let points = 0;
+    for (let s = 0; s < SAMPLES; s++) {
+      const [a, b] = pairs[Math.floor(random() * pairs.length)];
+      deck.length = 0;
+      for (let code = 0; code < 52; code++) {
+        if (code !== a[0] && code !== a[1] && code !== b[0] && code !== b[1]) deck.push(code);
+      }
+      for (let k = 0; k < 5; k++) {
+        const r = k + Math.floor(random() * (deck.length - k));
+        [deck[k], deck[r]] = [deck[r], deck[k]];
+        seven[0][2 + k] = deck[k];
+        seven[1][2 + k] = deck[k];
+      }
+      [seven[0][0], seven[0][1]] = a;
+      [seven[1][0], seven[1][1]] = b;
+      const x = evaluateCodes(seven[0]);
+      const y = evaluateCodes(seven[1]);
+      points += x > y ? 1 : x === y ? 0.5 : 0;
+    }
+    equity[i][j] = points / SAMPLES;
+    equity[j][i] = 1 - equity[i][j];
+  }
+}
+
+/* ---------- equilibrium ---------- */
+
+// Chance of being dealt each hand; every combo leaves the opponent 1225
+const PROB = combos.map((list) => list.length / 1326);
+const OPPONENT_COMBOS = 1225;
+
+/**
+ * What each side gains by switching to its best response against the other's
+ * strategy, summed, in big blinds per hand (0 at the equilibrium). Antes
+ * `ante` big blinds each; the small blind folds for -(0.5 + ante), steals
+ * 1 + ante, or gets called for a pot of 2 * (stack + ante).
+ */
+function exploitability(stack: number, ante: number, push: Float64Array, call: Float64Array): number {
+  const pot = 2 * (stack + ante);
+  const fold = -(0.5 + ante);
+  let gain = 0;
+  for (let i = 0; i < CELLS; i++) {
+    let ev = 0;
+    for (let j = 0; j < CELLS; j++) {
+      ev += weight[i][j] * ((1 - call[j]) * (1 + ante) + call[j] * (pot * equity[i][j] - stack - ante));
+    }
+    ev /= OPPONENT_COMBOS;
+    gain += PROB[i] * (Math.max(ev, fold) - (push[i] * ev + (1 - push[i]) * fold));
+  }
+  for (let j = 0; j < CELLS; j++) {
+    let ev = 0;
+    for (let i = 0; i < CELLS; i++) ev += push[i] * weight[j][i] * (pot * equity[j][i] - stack + 1);
+    ev /= OPPONENT_COMBOS;
+    gain += PROB[j] * (Math.max(ev, 0) - call[j] * ev);
+  }
+  return gain;
+}
+
+/**
+ * Small blind push / big blind call frequencies at one stack, by fictitious
+ * play: each side best-responds to the other's average strategy, and the
+ * averages are what converge. Stops once they're within EXPLOITABILITY_LIMIT
+ * of the equilibrium.
+ */
+function solve(stack: number, ante: number): { push: Float64Array; call: Float64Array } {
+  const pot = 2 * (stack + ante);
+  const push = new Float64Array(CELLS).fill(1);
+  const call = new Float64Array(CELLS).fill(1);
+
+  for (let t = 1; t <= MAX_ITERATIONS; t++) {
+    // Big blind: call when winning the pot often enough beats folding the blind
+    for (let j = 0; j < CELLS; j++) {
+      let ev = 0;
+      for (let i = 0; i < CELLS; i++) {
+        if (!push[i]) continue;
+        ev += push[i] * weight[j][i] * (pot * equity[j][i] - stack + 1);
+      }
+      call[j] += ((ev > 0 ? 1 : 0) - call[j]) / (t + 1);
+    }
+
+    // Small blind: push when stealing the blinds plus the called all-ins beat folding
+    for (let i = 0; i < CELLS; i++) {
+      let ev = 0;
+      for (let j = 0; j < CELLS; j++) {
+        ev += weight[i][j] * ((1 - call[j]) * (1 + ante) + call[j] * (pot * equity[i][j] - stack - ante));
+      }
+      push[i] += ((ev / OPPONENT_COMBOS > -(0.5 + ante) ? 1 : 0) - push[i]) / (t + 1);
+    }
+
+    if (t % CHECK_EVERY === 0 && exploitability(stack, ante, push, call) < EXPLOITABILITY_LIMIT) {
+      return { push, call };
+    }
+  }
+  const gap = exploitability(stack, ante, push, call);
+  throw new Error(`No convergence at ${stack}bb, ante ${ante}bb: ${gap.toFixed(4)}bb exploitable`);
+}
+
+// Hands play where the equilibrium plays them at least half the time
+const plays = (frequency: number) => frequency >= 0.5;
+
+// Chart entries for one ante: the largest stack each hand pushes (calls) at
+function solveChart(ante: number) {
+  const pushUpTo = new Array<number>(CELLS).fill(0);
+  const callUpTo = new Array<number>(CELLS).fill(0);
+  const gaps = new Set<number>(); // hands that stop and start again as stacks grow
+  const pushedBefore = new Array<boolean>(CELLS).fill(false);
+  for (let tenths = 10; tenths <= PUSH_FOLD_MAX_BB * 10; tenths += STACK_STEP * 10) {
+    const stack = tenths / 10;
+    const { push, call } = solve(stack, ante);
+    for (let i = 0; i < CELLS; i++) {
+      if (plays(push[i])) {
+        if (pushedBefore[i] && pushUpTo[i] < stack - STACK_STEP - 1e-9) gaps.add(i);
+        pushUpTo[i] = stack;
+        pushedBefore[i] = true;
+      }
+      if (plays(call[i])) callUpTo[i] = stack;
+    }
+    if (tenths % 10 === 0) {
+      const share = (range: Float64Array) =>
+        range.reduce((sum, frequency, i) => sum + (plays(frequency) ? combos[i].length : 0), 0) / 1326;
+      console.log(
+        `ante ${ante.toFixed(3)} ${String(stack).padStart(4)}bb: push ${(share(push) * 100).toFixed(1)}%, call ${(share(call) * 100).toFixed(1)}%`
+      );
+    }
+  }
+  if (gaps.size > 0) {
+    const names = [...gaps].map((i) => gridHandName(Math.floor(i / HAND_GRID_SIZE), i % HAND_GRID_SIZE));
+    console.log(`ante ${ante.toFixed(3)}: pushes with a gap below the chart entry: ${names.join(" ")}`);
+  }
+  return { ante, pushUpTo, callUpTo };
+}
+
+// One chart per ante-to-big-blind ratio in the blind structure
+const ANTES = [...new Set(BLIND_LEVELS.map((level) => Math.round((level.ante / level.bb) * 1000) / 1000))].sort(
+  (a, b) => a - b
+);
+const charts = ANTES.map(solveChart);
+
+/* ---------- output ---------- */
+
+function grid(values: number[]) {
+  const rows: string[] = [];
+  for (let row = 0; row < HAND_GRID_SIZE; row++) {
+    const cells = values.slice(row * HAND_GRID_SIZE, (row + 1) * HAND_GRID_SIZE).map((v) => v.toFixed(1).padStart(4));
+    rows.push(`      [${cells.join(",")}], // ${gridHandName(row, row)[0]}`);
+  }
+  return rows.join("\n");
+}
+
+writeFileSync(
+  OUTPUT,
+  `/**
+ * Push/Fold Chart
+ *
+ * Generated by scripts/generatePushFoldChart.ts (npm run generate:pushfold) - do not edit.
+ *
+ * Largest effective stack in big blinds at which each hand pushes from the
+ * small blind (push) or calls an all-in in the big blind (call) in the
+ * heads-up push/fold equilibrium, blinds 0.5/1, one chart per ante (in big
+ * blinds, posted by both players) used in the blind structure.
+ * Rows and columns run A to 2: suited hands above the diagonal, offsuit below.
+ */
+
+export const PUSH_FOLD_CHARTS: { anteBB: number; push: number[][]; call: number[][] }[] = [
+${charts
+  .map(
+    ({ ante, pushUpTo, callUpTo }) => `  {
+    anteBB: ${ante},
+    push: [
+${grid(pushUpTo)}
+    ],
+    call: [
+${grid(callUpTo)}
+    ],
+  },`
+  )
+  .join("\n")}
+];
+`
+);
+console.log(`Wrote ${OUTPUT}`);